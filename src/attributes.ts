@@ -7,6 +7,23 @@ export const ATTR = {
   MESSAGE_ROLE: 'gen_ai.message.role',
   MESSAGE_INDEX: 'gen_ai.message.index',
   MESSAGE_CONTENT_TRUNCATED: 'gen_ai.message.content_truncated',
+  MESSAGE_PART_COUNT: 'gen_ai.message.part_count',
+
+  // Multimodal content parts (metadata only, never raw bytes)
+  MESSAGE_PART_INDEX: 'gen_ai.message.part.index',
+  MESSAGE_PART_TYPE: 'gen_ai.message.part.type',
+  MESSAGE_PART_MIME_TYPE: 'gen_ai.message.part.mime_type',
+  MESSAGE_PART_BYTE_SIZE: 'gen_ai.message.part.byte_size',
+  MESSAGE_PART_WIDTH: 'gen_ai.message.part.width',
+  MESSAGE_PART_HEIGHT: 'gen_ai.message.part.height',
+  MESSAGE_PART_SHA256: 'gen_ai.message.part.sha256',
+  MESSAGE_PART_FILENAME: 'gen_ai.message.part.filename',
+  MESSAGE_PART_URI: 'gen_ai.message.part.uri',
+
+  // Structured chat history (JSON)
+  INPUT_MESSAGES: 'gen_ai.input.messages',
+  OUTPUT_MESSAGES: 'gen_ai.output.messages',
+  SYSTEM_INSTRUCTIONS: 'gen_ai.system_instructions',
 
   // Choice-level
   RESPONSE_CHOICE_INDEX: 'gen_ai.response.choice.index',
@@ -16,10 +33,14 @@ export const ATTR = {
   TOOL_NAME: 'gen_ai.tool.name',
   TOOL_CALL_ID: 'gen_ai.tool.call.id',
   TOOL_ARGUMENTS: 'gen_ai.tool.arguments',
+  TOOL_CALL_RESULT: 'gen_ai.tool.call.result',
 
   // Provider
   PROVIDER_NAME: 'gen_ai.provider.name',
 
+  // Conversation
+  CONVERSATION_TURN_INDEX: 'gen_ai.conversation.turn_index',
+
   // RAG / data source
   DATA_SOURCE_ID: 'gen_ai.data_source.id',
   RAG_QUERY_SHA256: 'gen_ai.rag.query_sha256',
@@ -56,6 +77,18 @@ export const ATTR = {
   DROPPED_EVENT_COUNT: 'evalops.dropped_event_count',
   REDACTED_CONTENT_COUNT: 'evalops.redacted_content_count',
   TRUNCATED_CONTENT_COUNT: 'evalops.truncated_content_count',
+  SAMPLING_WEIGHT: 'evalops.sampling.weight',
+
+  // Run span aggregates (set by RunHandle.end)
+  RUN_CASE_COUNT: 'evalops.run.case_count',
+  RUN_PASS_COUNT: 'evalops.run.pass_count',
+  RUN_FAIL_COUNT: 'evalops.run.fail_count',
+  RUN_INPUT_TOKENS: 'evalops.run.input_tokens',
+  RUN_OUTPUT_TOKENS: 'evalops.run.output_tokens',
+  RUN_TOTAL_TOKENS: 'evalops.run.total_tokens',
+  RUN_DURATION_P50: 'evalops.run.duration_p50',
+  RUN_DURATION_P95: 'evalops.run.duration_p95',
+  RUN_WARNING_COUNT: 'evalops.run.warning_count',
 
   // Privacy helpers
   CONTENT_SHA256: 'evalops.content_sha256',
@@ -1,10 +1,13 @@
 #!/usr/bin/env node
 /*
  * Minimal JSONL → OTLP replay CLI
- * Usage: npx eval2otel-cli ingest --file ./evals.jsonl [--provider <mode>]
+ * Usage: npx eval2otel-cli ingest --file ./evals.jsonl [--provider <mode>] [--processor <module>[,<module>]]
+ *        [--dedupe | --dedupe-index <path>] [--deterministic-ids] [--resource-detectors ci,git]
+ *        [--workflow-hierarchy]
  */
-import { createEval2Otel, EvalResult, OtelConfig } from './index';
+import { createEval2Otel, EvalResult, InstrumentationPreset, OtelConfig, ResourceDetectorName } from './index';
 import { convertProviderWithEvidence, detectProvider } from './helpers';
+import { loadProcessorModule } from './processors';
 import * as fs from 'fs';
 import * as readline from 'readline';
 
@@ -43,6 +46,30 @@ export async function runCli(argv: string[]) {
   const dryRun = Boolean(args['dry-run']);
   const withExemplars = Boolean(args['with-exemplars']);
   const redactPattern = args['redact-pattern'] as string | undefined;
+  // Replays only need eval telemetry; don't patch fs/dns/http unless asked
+  const instrumentations = ((args['instrumentations'] as string | undefined) ?? 'none') as InstrumentationPreset;
+  if (!['none', 'http-only', 'all'].includes(instrumentations)) {
+    console.error('Unknown --instrumentations value. Supported: none, http-only, all'); process.exit(1);
+  }
+
+  const resourceDetectors = typeof args['resource-detectors'] === 'string'
+    ? args['resource-detectors'].split(',').map(name => name.trim()).filter(Boolean) as ResourceDetectorName[]
+    : undefined;
+  if (resourceDetectors?.some(name => !['ci', 'git'].includes(name))) {
+    console.error('Unknown --resource-detectors value. Supported: ci, git'); process.exit(1);
+  }
+
+  const processorPaths = typeof args['processor'] === 'string' ? args['processor'].split(',').filter(Boolean) : [];
+  const processors = processorPaths.flatMap(modulePath => loadProcessorModule(modulePath.trim()));
+
+  // --dedupe-index persists seen keys so re-running a partially ingested file skips what already landed
+  const dedupeIndex = typeof args['dedupe-index'] === 'string' ? args['dedupe-index'] : undefined;
+  const dedupe = dedupeIndex ? { indexPath: dedupeIndex } : (args['dedupe'] ? {} : undefined);
+
+  const deterministicIds = args['deterministic-ids'] ? {} : undefined;
+
+  // Workflow trees can only be rebuilt once every line is read, so results are buffered into one batch
+  const workflowHierarchy = Boolean(args['workflow-hierarchy']);
 
   const config: OtelConfig = {
     serviceName,
@@ -52,12 +79,24 @@ export async function runCli(argv: string[]) {
     sampleContentRate: sampleRate ?? 1.0,
     contentMaxLength: contentCap,
     enableExemplars: withExemplars,
+    instrumentations,
+    processors,
+    dedupe,
+    deterministicIds,
+    resourceDetectors,
+    workflowHierarchy,
+    // A bad row in the buffered batch is logged rather than aborting the rest
+    onError: workflowHierarchy ? 'log' : undefined,
+    // Flush what was already converted if the replay is interrupted
+    registerShutdownHooks: !dryRun,
     redact: redactPattern ? (content: string) => (new RegExp(redactPattern).test(content) ? null : content) : undefined,
   } as OtelConfig;
 
   const eval2otel = createEval2Otel(config);
   const rl = readline.createInterface({ input: fs.createReadStream(file), crlfDelay: Infinity });
   let count = 0;
+  let duplicates = 0;
+  const batch: EvalResult[] = [];
   for await (const line of rl) {
     const trimmed = line.trim();
     if (!trimmed) continue;
@@ -80,7 +119,7 @@ export async function runCli(argv: string[]) {
           endTime: end,
           provider: mode as any,
         });
-        evalResult = conversion.evalResult;
+        evalResult = conversion.evalResult && withStableId(conversion.evalResult, obj.id, conversion.evidence.rawPayloadSha256);
         if (!evalResult) {
           if (!providerMode && detected === 'unknown' && noFallback) {
             throw new Error('Autodetect failed and fallback disabled');
@@ -94,14 +133,36 @@ export async function runCli(argv: string[]) {
       }
       if (!evalResult) throw new Error('Unable to build EvalResult from input line');
       if (dryRun) console.log(`TRACE eval=${evalResult.id} op=${evalResult.operation} model=${evalResult.request?.model}`);
-      else eval2otel.processEvaluation(evalResult);
+      else if (workflowHierarchy) batch.push(evalResult);
+      else {
+        const reports = eval2otel.processEvaluation(evalResult);
+        if (dedupe) duplicates += reports.filter(report => report.duplicate).length;
+      }
       count++;
     } catch (e) {
       console.error('Failed to parse/process line:', e);
     }
   }
+  if (batch.length > 0) duplicates += eval2otel.processEvaluations(batch).duplicateCount;
   if (!dryRun) await eval2otel.shutdown();
-  console.log(`Processed ${count} evaluations${dryRun ? ' (dry-run)' : ''}`);
+  const skipped = dedupe && !dryRun ? ` (${duplicates} duplicates skipped)` : '';
+  console.log(`Processed ${count} evaluations${dryRun ? ' (dry-run)' : ''}${skipped}`);
+}
+
+/**
+ * Provider adapters generate a random eval id, so a replayed line would never
+ * match `--dedupe` keys or `--deterministic-ids`. Use the line's own `id` when
+ * it has one and otherwise derive the id from the raw payload hash.
+ */
+function withStableId(evalResult: EvalResult, lineId: unknown, rawPayloadSha256: string | undefined): EvalResult {
+  const id = typeof lineId === 'string' && lineId
+    ? lineId
+    : rawPayloadSha256 ? `${evalResult.system ?? 'provider'}-${rawPayloadSha256.slice(0, 32)}` : undefined;
+  if (!id) return evalResult;
+  const conversation = evalResult.conversation?.id === `conv-${evalResult.id}`
+    ? { ...evalResult.conversation, id: `conv-${id}` }
+    : evalResult.conversation;
+  return { ...evalResult, id, conversation };
 }
 
 if (require.main === module) {
@@ -0,0 +1,193 @@
+import { z } from 'zod';
+import { ConversionWarning, OtelConfig } from './types';
+
+const fn = z.custom<(...args: never[]) => unknown>(value => typeof value === 'function', { message: 'Expected a function' });
+const headers = z.record(z.string(), z.string());
+const nonNegativeInt = z.number().int().nonnegative();
+const protocol = z.enum(['grpc', 'http/protobuf', 'http/json']);
+
+const contentPolicyShape = {
+  exporterProtocol: protocol.optional(),
+  captureContent: z.boolean().optional(),
+  sampleContentRate: z.number().min(0).max(1).optional(),
+  contentSampler: fn.optional(),
+  contentMaxLength: nonNegativeInt.optional(),
+  markTruncatedContent: z.boolean().optional(),
+  emitOperationalMetadata: z.boolean().optional(),
+  redact: fn.optional(),
+  redactMessageContent: fn.optional(),
+  redactToolArguments: fn.optional(),
+  maxEventsPerSpan: nonNegativeInt.optional(),
+};
+
+export const DestinationConfigSchema = z.strictObject({
+  ...contentPolicyShape,
+  name: z.string().min(1),
+  endpoint: z.string().min(1),
+  headers: headers.optional(),
+});
+
+export const QueueOptionsSchema = z.strictObject({
+  maxSize: z.number().int().positive().optional(),
+  concurrency: z.number().int().positive().optional(),
+  overflow: z.enum(['block', 'drop-oldest', 'drop-newest']).optional(),
+});
+
+// Zod schema for runtime validation of OtelConfig (e.g. when loaded from JSON).
+// Objects are strict so misspelled keys surface instead of being dropped.
+export const OtelConfigSchema = z.strictObject({
+  ...contentPolicyShape,
+  serviceName: z.string().min(1),
+  serviceVersion: z.string().optional(),
+  environment: z.string().optional(),
+
+  endpoint: z.string().optional(),
+  exporterHeaders: headers.optional(),
+  tracesEndpoint: z.string().optional(),
+  metricsEndpoint: z.string().optional(),
+  logsEndpoint: z.string().optional(),
+  tracesHeaders: headers.optional(),
+  metricsHeaders: headers.optional(),
+  logsHeaders: headers.optional(),
+  resourceAttributes: z.record(z.string(), z.union([z.string(), z.number(), z.boolean()])).optional(),
+  resourceDetectors: z.array(z.enum(['ci', 'git'])).optional(),
+
+  semconvStabilityOptIn: z.string().optional(),
+  semconvGaVersion: z.string().optional(),
+
+  enableExemplars: z.boolean().optional(),
+  metricAttributeAllowlist: z.array(z.string()).optional(),
+  maxMetricAttributes: nonNegativeInt.optional(),
+
+  useSdk: z.boolean().optional(),
+  sdk: z.unknown().optional(),
+  manageSdkLifecycle: z.boolean().optional(),
+  tracerProvider: z.unknown().optional(),
+  meterProvider: z.unknown().optional(),
+  loggerProvider: z.unknown().optional(),
+  eventEmissionMode: z.enum(['span-events', 'logs', 'both']).optional(),
+  toolCallMode: z.enum(['events', 'spans']).optional(),
+  agentStepMode: z.enum(['events', 'spans']).optional(),
+  messageFormat: z.enum(['events', 'attributes', 'both']).optional(),
+
+  queue: QueueOptionsSchema.optional(),
+  destinations: z.array(DestinationConfigSchema).optional(),
+  instrumentations: z.union([
+    z.enum(['none', 'http-only', 'all']),
+    z.array(z.unknown()),
+    z.record(z.string(), z.unknown()),
+  ]).optional(),
+
+  onError: z.union([z.enum(['throw', 'log', 'skip']), fn]).optional(),
+  deadLetter: z.strictObject({ path: z.string().min(1) }).optional(),
+  processors: z.array(z.strictObject({
+    name: z.string().optional(),
+    beforeConvert: fn.optional(),
+    afterConvert: fn.optional(),
+    beforeRecordMetrics: fn.optional(),
+  })).optional(),
+
+  spanSampling: z.strictObject({
+    passRate: z.number().min(0).max(1),
+    alwaysKeep: fn.optional(),
+  }).optional(),
+
+  dedupe: z.strictObject({
+    maxEntries: z.number().int().positive().optional(),
+    indexPath: z.string().min(1).optional(),
+  }).optional(),
+  workflowHierarchy: z.boolean().optional(),
+  conversationTracking: z.strictObject({
+    ttlMs: z.number().int().positive().optional(),
+    maxConversations: z.number().int().positive().optional(),
+    emitNewMessagesOnly: z.boolean().optional(),
+  }).optional(),
+  registerShutdownHooks: z.union([z.boolean(), z.strictObject({
+    timeoutMs: nonNegativeInt.optional(),
+    signals: z.array(z.string().regex(/^SIG[A-Z0-9]+$/, 'Expected a signal name such as SIGTERM')).optional(),
+    uncaughtException: z.boolean().optional(),
+  })]).optional(),
+  deterministicIds: z.strictObject({
+    spanIdKey: fn.optional(),
+    idGenerator: z.unknown().optional(),
+  }).optional(),
+});
+
+export interface ConfigValidationResult {
+  /** Non-fatal problems, such as options that are ignored in combination with others */
+  warnings: ConversionWarning[];
+}
+
+/**
+ * Validate an `OtelConfig` at runtime. Throws an Error listing every invalid
+ * path (e.g. `destinations[0].endpoint`); returns warnings for unknown keys
+ * and for combinations that are accepted but have no effect.
+ */
+export function validateOtelConfig(config: OtelConfig): ConfigValidationResult {
+  const parsed = OtelConfigSchema.safeParse(config);
+  const issues = parsed.success ? [] : parsed.error.issues;
+  const errors = issues.filter(issue => issue.code !== 'unrecognized_keys');
+  if (errors.length > 0) {
+    const details = errors.map(issue => `${formatPath(issue.path)}: ${issue.message}`);
+    throw new Error(`Invalid eval2otel config:\n  - ${details.join('\n  - ')}`);
+  }
+  const unknownKeys = issues.flatMap(issue =>
+    issue.code === 'unrecognized_keys' ? issue.keys.map(key => formatPath([...issue.path, key])) : []);
+  const warnings: ConversionWarning[] = unknownKeys.map(path => ({
+    code: 'config.unknown_option',
+    message: `\`${path}\` is not a known option and is ignored`,
+    severity: 'warning',
+  }));
+  return { warnings: [...warnings, ...collectConfigWarnings(config)] };
+}
+
+function collectConfigWarnings(config: OtelConfig): ConversionWarning[] {
+  const warnings: ConversionWarning[] = [];
+  const warn = (code: string, message: string) => warnings.push({ code, message, severity: 'warning' });
+
+  if (config.useSdk === false) {
+    if (config.sdk !== undefined) {
+      warn('config.sdk_ignored', '`sdk` is ignored when `useSdk` is false');
+    }
+    const exporterKeys = (['endpoint', 'exporterProtocol', 'exporterHeaders', 'tracesEndpoint', 'metricsEndpoint', 'logsEndpoint'] as const)
+      .filter(key => config[key] !== undefined);
+    if (exporterKeys.length > 0) {
+      warn('config.exporter_ignored', `${exporterKeys.join(', ')} ignored when \`useSdk\` is false; pass createOtlpExporters(config) to your own SDK instead`);
+    }
+    if (config.instrumentations !== undefined) {
+      warn('config.instrumentations_ignored', '`instrumentations` is ignored when `useSdk` is false');
+    }
+  }
+  if (config.manageSdkLifecycle !== undefined && config.sdk === undefined) {
+    warn('config.lifecycle_without_sdk', '`manageSdkLifecycle` only applies to a supplied `sdk`');
+  }
+  if (config.contentSampler && config.sampleContentRate !== undefined) {
+    warn('config.sample_rate_ignored', '`sampleContentRate` is ignored when `contentSampler` is set');
+  }
+  if (config.dedupe?.indexPath && config.dedupe.maxEntries !== undefined) {
+    warn('config.dedupe_max_entries_ignored', '`dedupe.maxEntries` is ignored when `dedupe.indexPath` is set');
+  }
+  if (config.deterministicIds && !config.deterministicIds.idGenerator
+    && (config.useSdk === false || config.sdk !== undefined || config.tracerProvider !== undefined)) {
+    warn('config.deterministic_ids_unwired', '`deterministicIds` needs its `idGenerator` installed in your tracer provider when eval2otel does not build the SDK');
+  }
+  if (config.semconvGaVersion && config.semconvStabilityOptIn) {
+    warn('config.semconv_opt_in_ignored', '`semconvGaVersion` takes precedence over `semconvStabilityOptIn`');
+  }
+  if (config.captureContent !== true && !config.destinations?.some(d => d.captureContent === true)) {
+    const contentKeys = (['contentMaxLength', 'markTruncatedContent', 'redact', 'redactMessageContent', 'redactToolArguments'] as const)
+      .filter(key => config[key] !== undefined);
+    if (contentKeys.length > 0) {
+      warn('config.content_options_unused', `${contentKeys.join(', ')} have no effect while \`captureContent\` is disabled`);
+    }
+  }
+  return warnings;
+}
+
+function formatPath(path: PropertyKey[]): string {
+  if (path.length === 0) return '(root)';
+  return path.reduce<string>((acc, key) => {
+    if (typeof key === 'number') return `${acc}[${key}]`;
+    return acc ? `${acc}.${String(key)}` : String(key);
+  }, '');
+}
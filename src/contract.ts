@@ -1,6 +1,7 @@
 import { createHash } from 'crypto';
 import { ATTR } from './attributes';
 import {
+  BatchConversionReport,
   ConversionReport,
   ConversionWarning,
   Eval2OtelEvidence,
@@ -11,6 +12,19 @@ import {
 export const EVAL2OTEL_CONTRACT_VERSION = 'eval2otel.v1';
 export const UNKNOWN_SEMCONV_VERSION = 'unspecified';
 
+/** Attributes every eval2otel.v1 span must carry (see docs/contract/eval2otel-v1.md) */
+export const EVAL2OTEL_REQUIRED_SPAN_ATTRIBUTES = [
+  'gen_ai.operation.name',
+  'gen_ai.provider.name',
+  ATTR.CONTRACT_VERSION,
+  ATTR.SEMCONV_VERSION,
+  ATTR.EVAL_ID,
+  ATTR.WARNING_COUNT,
+  ATTR.DROPPED_EVENT_COUNT,
+  ATTR.REDACTED_CONTENT_COUNT,
+  ATTR.TRUNCATED_CONTENT_COUNT,
+] as const;
+
 export interface ConversionCounters {
   eventCount?: number;
   droppedEventCount?: number;
@@ -120,6 +134,47 @@ export function buildConversionReport(
   };
 }
 
+export function buildBatchConversionReport(reports: ConversionReport[], durationMs: number): BatchConversionReport {
+  const warningsByCode: Record<string, ConversionWarning[]> = {};
+  reports.forEach(report => report.warnings.forEach((warning) => {
+    (warningsByCode[warning.code] ??= []).push(warning);
+  }));
+  const sum = (pick: (report: ConversionReport) => number) => reports.reduce((total, report) => total + pick(report), 0);
+  const successCount = reports.filter(report => report.success).length;
+  return {
+    reports,
+    total: reports.length,
+    successCount,
+    failureCount: reports.length - successCount,
+    sampledOutCount: reports.filter(report => report.sampled === false).length,
+    duplicateCount: reports.filter(report => report.duplicate).length,
+    droppedEventCount: sum(report => report.droppedEventCount),
+    redactedContentCount: sum(report => report.redactedContentCount),
+    truncatedContentCount: sum(report => report.truncatedContentCount),
+    warningCount: sum(report => report.warningCount),
+    warningsByCode,
+    durationMs,
+  };
+}
+
+/** Report for an evaluation that dedupe skipped: nothing was emitted */
+export function buildDuplicateConversionReport(evalResult: EvalResult, config: OtelConfig): ConversionReport {
+  return {
+    evalId: evalResult.id,
+    success: true,
+    contractVersion: evalResult.provenance?.contractVersion ?? EVAL2OTEL_CONTRACT_VERSION,
+    semconvVersion: resolveSemconvVersion(config, evalResult),
+    eventCount: 0,
+    droppedEventCount: 0,
+    redactedContentCount: 0,
+    truncatedContentCount: 0,
+    warningCount: 0,
+    warnings: [],
+    durationMs: 0,
+    duplicate: true,
+  };
+}
+
 export function buildFailureConversionReport(
   evalResult: Partial<EvalResult> | undefined,
   config: OtelConfig,
@@ -0,0 +1,95 @@
+import { SpanContext } from '@opentelemetry/api';
+import { ConversationTrackingConfig, EvalResult } from './types';
+
+/** Where the next turn of a conversation sits relative to the last one converted */
+export interface ConversationTurn {
+  conversationId: string;
+  /** 0 for the first turn seen (or the first after the TTL expired) */
+  turnIndex: number;
+  /** Span of the previous turn, if it is still remembered */
+  previous?: SpanContext;
+  /** Messages already emitted by earlier turns; 0 when the history did not grow */
+  newMessageOffset: number;
+}
+
+interface ConversationState {
+  spanContext?: SpanContext;
+  turnIndex: number;
+  messageCount: number;
+  expiresAt: number;
+}
+
+const DEFAULT_TTL_MS = 30 * 60 * 1000;
+const DEFAULT_MAX_CONVERSATIONS = 10000;
+
+/**
+ * Remembers the last converted span per `conversation.id` so later turns can
+ * link back to it. Entries expire `ttlMs` after their last turn and the least
+ * recently used are evicted beyond `maxConversations`.
+ */
+export class ConversationTracker {
+  private conversations = new Map<string, ConversationState>();
+  private ttlMs: number;
+  private maxConversations: number;
+
+  constructor(config: ConversationTrackingConfig = {}, private now: () => number = Date.now) {
+    this.ttlMs = config.ttlMs ?? DEFAULT_TTL_MS;
+    this.maxConversations = config.maxConversations ?? DEFAULT_MAX_CONVERSATIONS;
+  }
+
+  /** The turn `evalResult` would be, or undefined when it has no conversation id */
+  nextTurn(evalResult: EvalResult): ConversationTurn | undefined {
+    const conversationId = conversationIdOf(evalResult);
+    if (conversationId === undefined) return undefined;
+    const state = this.live(conversationId);
+    if (!state) return { conversationId, turnIndex: 0, newMessageOffset: 0 };
+    const messageCount = evalResult.conversation?.messages?.length ?? 0;
+    return {
+      conversationId,
+      turnIndex: state.turnIndex + 1,
+      previous: state.spanContext,
+      // A shorter history means the caller rewrote it, so emit all of it again
+      newMessageOffset: messageCount >= state.messageCount ? state.messageCount : 0,
+    };
+  }
+
+  /**
+   * Count `evalResult` as the latest turn of its conversation. Without a
+   * `spanContext` (e.g. the span was sampled out) later turns keep linking to
+   * the last span that was emitted.
+   */
+  record(evalResult: EvalResult, spanContext?: SpanContext): void {
+    const turn = this.nextTurn(evalResult);
+    if (!turn) return;
+    this.conversations.delete(turn.conversationId);
+    this.conversations.set(turn.conversationId, {
+      spanContext: spanContext ?? turn.previous,
+      turnIndex: turn.turnIndex,
+      // Messages of a turn without a span were never emitted, so the next turn re-emits them
+      messageCount: spanContext ? evalResult.conversation?.messages?.length ?? 0 : turn.newMessageOffset,
+      expiresAt: this.now() + this.ttlMs,
+    });
+    if (this.conversations.size > this.maxConversations) {
+      const oldest = this.conversations.keys().next().value;
+      if (oldest !== undefined) this.conversations.delete(oldest);
+    }
+  }
+
+  get size(): number {
+    return this.conversations.size;
+  }
+
+  private live(conversationId: string): ConversationState | undefined {
+    const state = this.conversations.get(conversationId);
+    if (state && state.expiresAt <= this.now()) {
+      this.conversations.delete(conversationId);
+      return undefined;
+    }
+    return state;
+  }
+}
+
+function conversationIdOf(evalResult: EvalResult): string | undefined {
+  const id: unknown = evalResult?.conversation?.id;
+  return typeof id === 'string' && id !== '' ? id : undefined;
+}
@@ -1,6 +1,18 @@
-import { SpanKind, SpanStatusCode, trace, Span, context } from '@opentelemetry/api';
+import { SpanKind, SpanStatusCode, trace, Span, context, Tracer } from '@opentelemetry/api';
+import { Logger, logs } from '@opentelemetry/api-logs';
 import { createHash } from 'crypto';
-import { ConversionReport, EvalResult, GenAIAttributes, OtelConfig, ProcessOptions, EvalResultSchema } from './types';
+import {
+  ActiveEvalSpan,
+  ContentPart,
+  ConversionReport,
+  DestinationConfig,
+  EvalResult,
+  GenAIAttributes,
+  OtelConfig,
+  ProcessOptions,
+  EvalResultSchema,
+  RunOptions,
+} from './types';
 import { ATTR } from './attributes';
 import {
   buildConversionReport,
@@ -8,19 +20,59 @@ import {
   normalizeProviderName,
   sha256,
 } from './contract';
+import { resolveDestinationConfig } from './destinations';
+import { buildEventLogRecord } from './events';
+import { deriveEvalIds, deriveRunIds } from './ids';
 import { deriveRagMetrics, getRagMetricValue } from './rag';
+import { decideSpanSampling } from './sampling';
+import { WorkflowSpanOptions } from './workflows';
+
+interface DestinationConverter {
+  name: string;
+  converter: Eval2OtelConverter;
+}
+
+type AfterConvertHook = (span: Span, report: ConversionReport, evalResult: EvalResult) => void;
+
+type MessageContent = NonNullable<EvalResult['conversation']>['messages'][number]['content'];
+type StructuredToolCall = NonNullable<NonNullable<EvalResult['conversation']>['messages'][number]['toolCalls']>[number];
+/** One entry of a message's `parts` in `gen_ai.input.messages`/`gen_ai.output.messages` */
+type StructuredPart = { type: string } & Record<string, unknown>;
 
 export class Eval2OtelConverter {
-  private tracer;
+  private tracer: Tracer;
   private config: OtelConfig;
+  private destinations: DestinationConverter[] = [];
+  private afterConvertHooks: AfterConvertHook[] = [];
+  private logger: Logger;
+  private activeDestinationSpans: WeakMap<Span, Array<{ name: string; converter: Eval2OtelConverter; active: ActiveEvalSpan }>> = new WeakMap();
   private eventCounts: WeakMap<Span, number> = new WeakMap();
   private droppedEventCounts: WeakMap<Span, number> = new WeakMap();
   private redactedContentCounts: WeakMap<Span, number> = new WeakMap();
   private truncatedContentCounts: WeakMap<Span, number> = new WeakMap();
 
-  constructor(config: OtelConfig) {
+  constructor(config: OtelConfig, tracer?: Tracer) {
     this.config = config;
-    this.tracer = trace.getTracer('eval2otel', config.serviceVersion);
+    this.tracer = tracer ?? trace.getTracer('eval2otel', config.serviceVersion);
+    this.logger = (config.loggerProvider ?? logs).getLogger('eval2otel', config.serviceVersion);
+  }
+
+  /**
+   * Also render every evaluation to `tracer` using the destination's privacy
+   * policy. Destination reports are attached to the primary report.
+   */
+  addDestination(destination: DestinationConfig, tracer: Tracer): void {
+    this.destinations.push({
+      name: destination.name,
+      converter: new Eval2OtelConverter(resolveDestinationConfig(this.config, destination), tracer),
+    });
+  }
+
+  /**
+   * Run `hook` against each populated primary span before it ends
+   */
+  addAfterConvertHook(hook: AfterConvertHook): void {
+    this.afterConvertHooks.push(hook);
   }
 
   /**
@@ -35,13 +87,170 @@ export class Eval2OtelConverter {
     const spanName = this.getOperationSpanName(validated.operation);
     const startTime = validated.timestamp;
     const endTime = startTime + (validated.performance.duration * 1000); // Convert seconds to milliseconds
-    
-    // Set up parent context if provided
-    const parentContext = options?.parentSpan 
+
+    const sampling = this.config.spanSampling ? decideSpanSampling(validated, this.config.spanSampling) : undefined;
+    if (sampling && !sampling.sampled) {
+      return this.buildSampledOutReport(validated, spanName, conversionStartedAt);
+    }
+
+    const span = this.startSpan(validated, spanName, startTime, options);
+    if (sampling) span.setAttribute(ATTR.SAMPLING_WEIGHT, sampling.weight);
+    this.setErrorStatus(span, validated.error);
+    const report = this.populateSpan(span, validated, spanName, conversionStartedAt, options?.conversationMessageOffset);
+    if (sampling) {
+      report.sampled = true;
+      report.samplingWeight = sampling.weight;
+    }
+    try {
+      this.afterConvertHooks.forEach(hook => hook(span, report, validated));
+    } finally {
+      span.end(endTime);
+    }
+    if (this.destinations.length > 0) {
+      report.destinations = this.destinations.map(({ name, converter }) => ({
+        destination: name,
+        ...converter.convertEvalResult(evalResult, options),
+      }));
+    }
+    return report;
+  }
+
+  /**
+   * The report for an evaluation `spanSampling` drops, or undefined when it
+   * gets a span. Live spans are decided before the work runs, so an error
+   * thrown by the work cannot bring back a sampled-out pass.
+   */
+  sampleOutEvalSpan(evalResult: EvalResult): ConversionReport | undefined {
+    if (!this.config.spanSampling) return undefined;
+    const startedAt = Date.now();
+    const validated = EvalResultSchema.parse(evalResult);
+    if (decideSpanSampling(validated, this.config.spanSampling).sampled) return undefined;
+    return this.buildSampledOutReport(validated, this.getOperationSpanName(validated.operation), startedAt);
+  }
+
+  private buildSampledOutReport(evalResult: EvalResult, spanName: string, startedAt: number): ConversionReport {
+    return {
+      ...buildConversionReport(evalResult, this.config, spanName, { durationMs: Date.now() - startedAt }),
+      sampled: false,
+      samplingWeight: 0,
+    };
+  }
+
+  /**
+   * Start a live span for an evaluation whose work has not finished yet.
+   * The span starts now and stays open until `endEvalSpan` is called.
+   */
+  startEvalSpan(evalResult: EvalResult, options?: ProcessOptions): ActiveEvalSpan {
+    const startTime = Date.now();
+    const validated = EvalResultSchema.parse(evalResult);
+    const spanName = this.getOperationSpanName(validated.operation);
+    const span = this.startSpan(validated, spanName, startTime, options);
+    const samplingWeight = this.config.spanSampling
+      ? decideSpanSampling(validated, this.config.spanSampling).weight
+      : undefined;
+    if (samplingWeight !== undefined) span.setAttribute(ATTR.SAMPLING_WEIGHT, samplingWeight);
+    if (this.destinations.length > 0) {
+      this.activeDestinationSpans.set(span, this.destinations.map(({ name, converter }) => ({
+        name,
+        converter,
+        active: converter.startEvalSpan(evalResult, options),
+      })));
+    }
+    return { span, evalResult: validated, spanName, startTime, samplingWeight, messageOffset: options?.conversationMessageOffset };
+  }
+
+  /**
+   * Populate and end a span started with `startEvalSpan`. A thrown error from
+   * the wrapped work takes precedence over `evalResult.error` for span status.
+   */
+  endEvalSpan(active: ActiveEvalSpan, error?: unknown): ConversionReport {
+    const conversionStartedAt = Date.now();
+    const { span, evalResult, spanName } = active;
+    const destinationSpans = this.activeDestinationSpans.get(span);
+    let report: ConversionReport | undefined;
+    try {
+      if (error === undefined) {
+        this.setErrorStatus(span, evalResult.error);
+      } else {
+        this.setThrownStatus(span, error);
+      }
+      report = this.populateSpan(span, evalResult, spanName, conversionStartedAt, active.messageOffset);
+      if (active.samplingWeight !== undefined) {
+        report.sampled = true;
+        report.samplingWeight = active.samplingWeight;
+      }
+      const populated = report;
+      this.afterConvertHooks.forEach(hook => hook(span, populated, evalResult));
+    } finally {
+      span.end();
+      // A failed primary span still closes its destination spans
+      if (!report) destinationSpans?.forEach(({ active: destinationActive }) => destinationActive.span.end());
+    }
+    if (destinationSpans) {
+      report.destinations = destinationSpans.map(({ name, converter, active: destinationActive }) => ({
+        destination: name,
+        ...converter.endEvalSpan(destinationActive, error),
+      }));
+    }
+    return report;
+  }
+
+  /**
+   * Start the `evalops.run` span that case spans of a run are parented under.
+   * It goes to the primary tracer only, not to destinations.
+   */
+  startRunSpan(options: RunOptions): Span {
+    const attributes: Record<string, string | number | boolean> = { ...options.attributes, [ATTR.RUN_ID]: options.runId };
+    if (options.datasetId) attributes[ATTR.DATASET_ID] = options.datasetId;
+    if (options.datasetVersion) attributes[ATTR.DATASET_VERSION] = options.datasetVersion;
+    const start = () => this.tracer.startSpan('evalops.run', {
+      kind: SpanKind.INTERNAL,
+      startTime: options.startTime ?? Date.now(),
+      attributes,
+    }, context.active());
+    const idGenerator = this.config.deterministicIds?.idGenerator;
+    return idGenerator ? idGenerator.withIds(deriveRunIds(options.runId), start) : start();
+  }
+
+  /**
+   * Start a synthesized `evalops.workflow` span for `WorkflowHierarchy`. Like
+   * run spans, it goes to the primary tracer only.
+   */
+  startWorkflowSpan(workflow: WorkflowSpanOptions, options?: ProcessOptions): Span {
+    const attributes: Record<string, string | number | boolean> = { 'gen_ai.workflow.id': workflow.id };
+    if (workflow.name) attributes['gen_ai.workflow.name'] = workflow.name;
+    if (workflow.parentWorkflowId) attributes['gen_ai.workflow.parent_id'] = workflow.parentWorkflowId;
+    return this.tracer.startSpan('evalops.workflow', {
+      kind: SpanKind.INTERNAL,
+      startTime: workflow.startTime,
+      attributes,
+      links: this.buildLinks(options),
+    }, this.parentContext(options));
+  }
+
+  private startSpan(evalResult: EvalResult, spanName: string, startTime: number, options?: ProcessOptions): Span {
+    const parentContext = this.parentContext(options);
+    const links = this.buildLinks(options);
+    const attributes = this.buildSpanAttributes(evalResult, options?.attributes);
+    const start = () => this.tracer.startSpan(spanName, {
+      kind: SpanKind.CLIENT,
+      startTime,
+      attributes,
+      links,
+    }, parentContext);
+    const ids = this.config.deterministicIds;
+    return ids?.idGenerator ? ids.idGenerator.withIds(deriveEvalIds(evalResult, ids), start) : start();
+  }
+
+  /** Set up parent context if provided */
+  private parentContext(options?: ProcessOptions) {
+    return options?.parentSpan
       ? trace.setSpan(context.active(), options.parentSpan as Span)
       : context.active();
+  }
 
-    const links = (options?.links ?? []).map((l: any) => {
+  private buildLinks(options?: ProcessOptions) {
+    return (options?.links ?? []).map((l: any) => {
       if (!l) return undefined;
       if (typeof (l as any).spanContext === 'function') {
         return { context: (l as Span).spanContext() };
@@ -54,44 +263,79 @@ export class Eval2OtelConverter {
       }
       return undefined;
     }).filter(Boolean) as any;
+  }
 
-    const span = this.tracer.startSpan(spanName, {
-      kind: SpanKind.CLIENT,
-      startTime,
-      attributes: this.buildSpanAttributes(validated, options?.attributes),
-      links,
-    }, parentContext);
-
+  private setErrorStatus(span: Span, error: EvalResult['error']): void {
     // Set span status based on error
-    if (validated.error) {
+    if (error) {
       span.recordException({
-        name: validated.error.type,
-        message: validated.error.message,
+        name: error.type,
+        message: error.message,
       });
       span.setStatus({
         code: SpanStatusCode.ERROR,
-        message: validated.error.message,
+        message: error.message,
       });
     } else {
       span.setStatus({ code: SpanStatusCode.OK });
     }
+  }
 
+  private setThrownStatus(span: Span, error: unknown): void {
+    const errorType = error instanceof Error ? error.name : typeof error;
+    const message = error instanceof Error ? error.message : String(error);
+    span.recordException(error instanceof Error ? error : { name: errorType, message });
+    span.setStatus({ code: SpanStatusCode.ERROR, message });
+    this.setSpanAttributes(span, { 'error.type': errorType });
+  }
+
+  /**
+   * Emit content events and contract attributes onto an open span
+   */
+  private populateSpan(
+    span: Span,
+    validated: EvalResult,
+    spanName: string,
+    conversionStartedAt: number,
+    messageOffset = 0,
+  ): ConversionReport {
     // Decide once per evaluation for performance
     const captureContent = this.shouldCaptureContent(validated);
     const emitOps = this.config.emitOperationalMetadata !== false;
 
+    const messageFormat = this.config.messageFormat ?? 'events';
+
     // Add conversation events if present and allowed
-    if (validated.conversation && captureContent && emitOps) {
-      this.addConversationEvents(span, validated);
+    if (validated.conversation && captureContent && emitOps && messageFormat !== 'attributes') {
+      this.addConversationEvents(span, validated, messageOffset);
     }
 
     // Add choice events for response if allowed
-    if (validated.response.choices && captureContent && emitOps) {
+    if (validated.response.choices && captureContent && emitOps && messageFormat !== 'attributes') {
       this.addChoiceEvents(span, validated);
     }
 
-    // Add agent step events if allowed
-    if (validated.agent?.steps && captureContent && emitOps) {
+    // Structured chat history attributes per the latest GenAI conventions
+    if (captureContent && emitOps && messageFormat !== 'events') {
+      const redacted = this.redactedContentCounts.get(span);
+      const truncated = this.truncatedContentCounts.get(span);
+      this.addMessageAttributes(span, validated, messageOffset);
+      // In 'both' mode the events already counted this content once
+      if (messageFormat === 'both') {
+        this.restoreWeakCounter(this.redactedContentCounts, span, redacted);
+        this.restoreWeakCounter(this.truncatedContentCounts, span, truncated);
+      }
+    }
+
+    // Tool call spans carry timing and status even when content is not captured
+    if (validated.response.choices && this.config.toolCallMode === 'spans') {
+      this.addToolCallSpans(span, validated, captureContent && emitOps);
+    }
+
+    // Agent step spans, like tool call spans, carry no captured content
+    if (validated.agent?.steps && this.config.agentStepMode === 'spans') {
+      this.addAgentStepSpans(span, validated);
+    } else if (validated.agent?.steps && captureContent && emitOps) {
       this.addAgentStepEvents(span, validated);
     }
 
@@ -108,9 +352,7 @@ export class Eval2OtelConverter {
       durationMs: Date.now() - conversionStartedAt,
     };
     this.setSpanAttributes(span, buildEval2OtelAttributes(validated, this.config, counters));
-    const report = buildConversionReport(validated, this.config, spanName, counters);
-    span.end(endTime);
-    return report;
+    return buildConversionReport(validated, this.config, spanName, counters);
   }
 
   /**
@@ -226,6 +468,11 @@ export class Eval2OtelConverter {
     map.set(span, (map.get(span) ?? 0) + 1);
   }
 
+  private restoreWeakCounter(map: WeakMap<Span, number>, span: Span, value: number | undefined): void {
+    if (value === undefined) map.delete(span);
+    else map.set(span, value);
+  }
+
   private setSpanAttributes(span: Span, attrs: Record<string, string | number | boolean | string[]>): void {
     if (typeof (span as unknown as { setAttributes?: unknown }).setAttributes === 'function') {
       (span as unknown as { setAttributes: (attributes: Record<string, string | number | boolean | string[]>) => void })
@@ -441,12 +688,50 @@ export class Eval2OtelConverter {
   }
 
   /**
-   * Add conversation message events to span
+   * Emit a GenAI event as a span event, a log record correlated with the span,
+   * or both (per `eventEmissionMode`), subject to `maxEventsPerSpan`.
+   * `logEventName` overrides the name used for the log record.
+   */
+  private emitEvent(
+    span: Span,
+    evalResult: EvalResult,
+    name: string,
+    attributes: Record<string, string | number | boolean>,
+    logEventName?: string,
+  ): void {
+    if (this.canAddEvent(span)) {
+      this.emitCountedEvent(span, evalResult, name, attributes, logEventName);
+    }
+  }
+
+  /** Emit an event that has already been counted against the span's event cap */
+  private emitCountedEvent(
+    span: Span,
+    evalResult: EvalResult,
+    name: string,
+    attributes: Record<string, string | number | boolean>,
+    logEventName?: string,
+  ): void {
+    const mode = this.config.eventEmissionMode ?? 'span-events';
+    if (mode !== 'logs') {
+      span.addEvent(name, attributes);
+    }
+    if (mode !== 'span-events') {
+      this.logger.emit(buildEventLogRecord(logEventName ?? name, attributes, {
+        context: trace.setSpan(context.active(), span),
+        timestamp: new Date(evalResult.timestamp),
+      }));
+    }
+  }
+
+  /**
+   * Add conversation message events to span, starting at `messageOffset`
    */
-  private addConversationEvents(span: Span, evalResult: EvalResult): void {
+  private addConversationEvents(span: Span, evalResult: EvalResult, messageOffset = 0): void {
     if (!evalResult.conversation) return;
 
     evalResult.conversation.messages.forEach((message, index) => {
+      if (index < messageOffset) return;
       const eventName = `gen_ai.${message.role}.message`;
       const attributes: Record<string, string | number | boolean> = {
         [ATTR.PROVIDER_NAME]: normalizeProviderName(evalResult.system) ?? 'unknown',
@@ -455,7 +740,9 @@ export class Eval2OtelConverter {
       };
 
       if (message.content !== undefined) {
-        if (typeof message.content === 'string') {
+        if (Array.isArray(message.content)) {
+          this.addPartsContent(span, attributes, message.content, message.role);
+        } else if (typeof message.content === 'string') {
           const original = message.content;
           const redacted = this.trackRedaction(span, original, this.redactMessageContent(original, message.role));
           if (redacted !== null) {
@@ -504,8 +791,9 @@ export class Eval2OtelConverter {
         attributes[ATTR.TOOL_CALL_ID] = message.toolCallId;
       }
 
-      if (this.canAddEvent(span)) {
-        span.addEvent(eventName, attributes);
+      this.emitEvent(span, evalResult, eventName, attributes);
+      if (Array.isArray(message.content)) {
+        this.addContentPartEvents(span, evalResult, message.content, message.role, { [ATTR.MESSAGE_INDEX]: index });
       }
     });
   }
@@ -525,7 +813,9 @@ export class Eval2OtelConverter {
       };
 
       if (choice.message.content !== undefined) {
-        if (typeof choice.message.content === 'string') {
+        if (Array.isArray(choice.message.content)) {
+          this.addPartsContent(span, attributes, choice.message.content, choice.message.role);
+        } else if (typeof choice.message.content === 'string') {
           const original = choice.message.content;
           const redacted = this.trackRedaction(span, original, this.redactMessageContent(original, choice.message.role));
           if (redacted !== null) {
@@ -568,14 +858,14 @@ export class Eval2OtelConverter {
         }
       }
 
-      if (choice.message.toolCalls) {
+      if (choice.message.toolCalls && this.config.toolCallMode !== 'spans') {
         // Add tool call events separately for better structure
         choice.message.toolCalls.forEach((toolCall) => {
           const rawArgs = typeof toolCall.function.arguments === 'string'
             ? toolCall.function.arguments
             : JSON.stringify(toolCall.function.arguments);
           if (this.canAddEvent(span)) {
-            span.addEvent('gen_ai.tool.message', {
+            this.emitCountedEvent(span, evalResult, 'gen_ai.tool.message', {
             [ATTR.PROVIDER_NAME]: normalizeProviderName(evalResult.system) ?? 'unknown',
             [ATTR.TOOL_NAME]: toolCall.function.name,
             [ATTR.TOOL_CALL_ID]: toolCall.id,
@@ -593,41 +883,311 @@ export class Eval2OtelConverter {
         });
       }
 
-      if (this.canAddEvent(span)) {
-        span.addEvent('gen_ai.assistant.message', attributes);
+      this.emitEvent(span, evalResult, 'gen_ai.assistant.message', attributes, 'gen_ai.choice');
+      if (Array.isArray(choice.message.content)) {
+        this.addContentPartEvents(span, evalResult, choice.message.content, choice.message.role, {
+          [ATTR.RESPONSE_CHOICE_INDEX]: choice.index,
+        });
       }
     });
   }
 
   /**
-   * Add agent step events to span
+   * Set `gen_ai.system_instructions`, `gen_ai.input.messages` and
+   * `gen_ai.output.messages` as JSON. System messages become the instructions;
+   * text passes through message redaction and truncation (a part redacted to
+   * null is dropped) and tool call arguments through tool argument redaction.
    */
-  private addAgentStepEvents(span: Span, evalResult: EvalResult): void {
-    if (!evalResult.agent?.steps) return;
+  private addMessageAttributes(span: Span, evalResult: EvalResult, messageOffset = 0): void {
+    const messages = (evalResult.conversation?.messages ?? []).slice(messageOffset);
+    const systemParts = messages
+      .filter(message => message.role === 'system')
+      .flatMap(message => this.toMessageParts(span, message.content, message.role));
+    const inputMessages = messages
+      .filter(message => message.role !== 'system')
+      .map(message => {
+        const parts = message.role === 'tool'
+          ? [this.toToolCallResponsePart(span, message.content, message.toolCallId)]
+          : this.toMessageParts(span, message.content, message.role);
+        return { role: message.role, parts: [...parts, ...this.toToolCallParts(span, message.toolCalls)] };
+      });
+    const outputMessages = (evalResult.response.choices ?? []).map(choice => ({
+      role: choice.message.role,
+      parts: [
+        ...this.toMessageParts(span, choice.message.content, choice.message.role),
+        ...this.toToolCallParts(span, choice.message.toolCalls),
+      ],
+      finish_reason: choice.finishReason,
+    }));
 
-    evalResult.agent.steps.forEach((step, index) => {
-      const attributes: Record<string, string | number | boolean> = {
-        'gen_ai.agent.step.index': index,
-        'gen_ai.agent.step.name': step.name,
-        'gen_ai.agent.step.status': step.status,
+    const attributes: Record<string, string> = {};
+    if (systemParts.length > 0) attributes[ATTR.SYSTEM_INSTRUCTIONS] = JSON.stringify(systemParts);
+    if (inputMessages.length > 0) attributes[ATTR.INPUT_MESSAGES] = JSON.stringify(inputMessages);
+    if (outputMessages.length > 0) attributes[ATTR.OUTPUT_MESSAGES] = JSON.stringify(outputMessages);
+    this.setSpanAttributes(span, attributes);
+  }
+
+  private toMessageParts(span: Span, content: MessageContent | undefined, role: string): StructuredPart[] {
+    if (content === undefined) return [];
+    const parts: ContentPart[] = Array.isArray(content)
+      ? content
+      : [{ type: 'text', text: typeof content === 'string' ? content : JSON.stringify(content) }];
+    return parts.flatMap((part): StructuredPart[] => {
+      if (part.type === 'text') {
+        const text = this.redactAndTruncate(span, part.text, role);
+        return text === null ? [] : [{ type: 'text', content: text }];
+      }
+      // Binary parts carry metadata and, when captured, a non-data URI only
+      const uri = part.uri && isReferenceUri(part.uri) ? this.redactAndTruncate(span, part.uri, role) : null;
+      const filename = part.filename ? this.redactAndTruncate(span, part.filename, role) : null;
+      const metadata = {
+        filename: filename ?? undefined,
+        mime_type: part.mimeType,
+        byte_size: part.byteSize,
+        width: part.width,
+        height: part.height,
+        sha256: part.sha256,
       };
+      return [uri === null ? { type: part.type, ...metadata } : { type: 'uri', modality: part.type, uri, ...metadata }];
+    });
+  }
 
-      if (step.type) {
-        attributes['gen_ai.agent.step.type'] = step.type;
+  private toToolCallParts(span: Span, toolCalls: StructuredToolCall[] | undefined): StructuredPart[] {
+    return (toolCalls ?? []).map((toolCall) => {
+      const rawArgs = typeof toolCall.function.arguments === 'string'
+        ? toolCall.function.arguments
+        : JSON.stringify(toolCall.function.arguments ?? {});
+      const redacted = this.trackRedaction(span, rawArgs, this.redactToolArguments(rawArgs, toolCall.function.name, toolCall.id));
+      return {
+        type: 'tool_call',
+        id: toolCall.id,
+        name: toolCall.function.name,
+        arguments: this.truncateContent(redacted ?? '{}', span),
+      };
+    });
+  }
+
+  private toToolCallResponsePart(span: Span, content: MessageContent | undefined, toolCallId?: string): StructuredPart {
+    const text = this.toMessageParts(span, content, 'tool')
+      .flatMap(part => (typeof part.content === 'string' ? [part.content] : []))
+      .join('\n');
+    return { type: 'tool_call_response', id: toolCallId, response: text };
+  }
+
+  private redactAndTruncate(span: Span, content: string, role: string): string | null {
+    const redacted = this.trackRedaction(span, content, this.redactMessageContent(content, role));
+    return redacted === null ? null : this.truncateContent(redacted, span);
+  }
+
+  /**
+   * Set a multimodal message's text parts (joined by newlines) as its content,
+   * with the same redaction and truncation as string content
+   */
+  private addPartsContent(
+    span: Span,
+    attributes: Record<string, string | number | boolean>,
+    parts: ContentPart[],
+    role: string,
+  ): void {
+    attributes[ATTR.MESSAGE_PART_COUNT] = parts.length;
+    attributes[ATTR.MESSAGE_CONTENT_TYPE] = 'parts';
+    const text = parts.flatMap(part => (part.type === 'text' ? [part.text] : [])).join('\n');
+    if (!text) return;
+    const redacted = this.trackRedaction(span, text, this.redactMessageContent(text, role));
+    if (redacted === null) {
+      attributes[ATTR.CONTENT_SHA256] = this.hashContent(text);
+      return;
+    }
+    const max = this.config.contentMaxLength;
+    const truncated = typeof max === 'number' && max > 0 && redacted.length > max;
+    this.trackTruncation(span, truncated);
+    attributes[ATTR.MESSAGE_CONTENT] = truncated ? redacted.slice(0, max) : redacted;
+    if (truncated && this.config.markTruncatedContent) {
+      attributes[ATTR.MESSAGE_CONTENT_TRUNCATED] = true;
+    }
+  }
+
+  /**
+   * Emit a `gen_ai.message.part` event per image, audio or file part with its
+   * metadata. URIs and file names go through message redaction, and `data:`
+   * URIs or scheme-less values (bare base64) are never emitted, so no binary
+   * payload reaches telemetry.
+   */
+  private addContentPartEvents(
+    span: Span,
+    evalResult: EvalResult,
+    parts: ContentPart[],
+    role: string,
+    messageAttributes: Record<string, string | number | boolean>,
+  ): void {
+    parts.forEach((part, partIndex) => {
+      if (part.type === 'text') return;
+      const attributes: Record<string, string | number | boolean> = {
+        [ATTR.PROVIDER_NAME]: normalizeProviderName(evalResult.system) ?? 'unknown',
+        [ATTR.MESSAGE_ROLE]: role,
+        ...messageAttributes,
+        [ATTR.MESSAGE_PART_INDEX]: partIndex,
+        [ATTR.MESSAGE_PART_TYPE]: part.type,
+      };
+      if (part.mimeType) attributes[ATTR.MESSAGE_PART_MIME_TYPE] = part.mimeType;
+      if (part.byteSize !== undefined) attributes[ATTR.MESSAGE_PART_BYTE_SIZE] = part.byteSize;
+      if (part.width !== undefined) attributes[ATTR.MESSAGE_PART_WIDTH] = part.width;
+      if (part.height !== undefined) attributes[ATTR.MESSAGE_PART_HEIGHT] = part.height;
+      if (part.sha256) attributes[ATTR.MESSAGE_PART_SHA256] = part.sha256;
+      if (part.filename) {
+        const filename = this.trackRedaction(span, part.filename, this.redactMessageContent(part.filename, role));
+        if (filename !== null) attributes[ATTR.MESSAGE_PART_FILENAME] = this.truncateContent(filename, span);
       }
-      if (step.duration !== undefined) {
-        attributes['gen_ai.agent.step.duration'] = step.duration;
+      if (part.uri && isReferenceUri(part.uri)) {
+        const uri = this.trackRedaction(span, part.uri, this.redactMessageContent(part.uri, role));
+        if (uri !== null) attributes[ATTR.MESSAGE_PART_URI] = this.truncateContent(uri, span);
       }
+      this.emitEvent(span, evalResult, 'gen_ai.message.part', attributes);
+    });
+  }
+
+  /**
+   * Emit each response tool call as a child `gen_ai.execute_tool` span. Calls
+   * without `startTime`/`endTime` get a zero-length span at the parent's end.
+   * Arguments and results use the same redaction hooks as tool events, and
+   * redaction/truncation counts are kept on the parent span.
+   */
+  private addToolCallSpans(parent: Span, evalResult: EvalResult, captureContent: boolean): void {
+    const parentContext = trace.setSpan(context.active(), parent);
+    const parentEnd = evalResult.timestamp + evalResult.performance.duration * 1000;
+
+    evalResult.response.choices?.forEach((choice) => {
+      choice.message.toolCalls?.forEach((toolCall) => {
+        const attributes: Record<string, string | number | boolean> = {
+          'gen_ai.operation.name': 'execute_tool',
+          [ATTR.PROVIDER_NAME]: normalizeProviderName(evalResult.system) ?? 'unknown',
+          [ATTR.TOOL_NAME]: toolCall.function.name,
+          [ATTR.TOOL_CALL_ID]: toolCall.id,
+          [ATTR.RESPONSE_CHOICE_INDEX]: choice.index,
+        };
+
+        if (captureContent) {
+          const rawArgs = JSON.stringify(toolCall.function.arguments ?? {});
+          attributes[ATTR.TOOL_ARGUMENTS] = this.truncateContent(
+            this.trackRedaction(parent, rawArgs, this.redactToolArguments(
+              rawArgs,
+              toolCall.function.name,
+              toolCall.id
+            )) ?? '{}',
+            parent
+          );
+          if (toolCall.result !== undefined) {
+            const rawResult = typeof toolCall.result === 'string' ? toolCall.result : JSON.stringify(toolCall.result);
+            const redacted = this.trackRedaction(parent, rawResult, this.redactMessageContent(rawResult, 'tool'));
+            if (redacted !== null) {
+              attributes[ATTR.TOOL_CALL_RESULT] = this.truncateContent(redacted, parent);
+            } else {
+              attributes[ATTR.CONTENT_SHA256] = this.hashContent(rawResult);
+            }
+          }
+        }
+
+        const startTime = toolCall.startTime ?? parentEnd;
+        const toolSpan = this.tracer.startSpan('gen_ai.execute_tool', {
+          kind: SpanKind.INTERNAL,
+          startTime,
+          attributes,
+        }, parentContext);
+        this.setErrorStatus(toolSpan, toolCall.error);
+        if (toolCall.error) {
+          this.setSpanAttributes(toolSpan, { 'error.type': toolCall.error.type });
+        }
+        toolSpan.end(toolCall.endTime ?? startTime);
+      });
+    });
+  }
+
+  /**
+   * Add agent step events to span
+   */
+  private addAgentStepEvents(span: Span, evalResult: EvalResult): void {
+    if (!evalResult.agent?.steps) return;
+
+    evalResult.agent.steps.forEach((step, index) => {
+      const attributes = this.buildAgentStepAttributes(step, index);
       if (step.error) {
         attributes['gen_ai.agent.step.error'] = step.error;
       }
 
-      if (this.canAddEvent(span)) {
-        span.addEvent('gen_ai.agent.step', attributes);
-      }
+      this.emitEvent(span, evalResult, 'gen_ai.agent.step', attributes);
     });
   }
 
+  /**
+   * Emit agent steps as child `gen_ai.agent.step` spans. Steps nest under the
+   * earlier step named by `parentStep` (unknown references stay top-level);
+   * siblings run back to back from their parent's start, and a step without
+   * `duration` spans its children. Failed steps get ERROR status with
+   * `step.error` recorded as an exception.
+   */
+  private addAgentStepSpans(parent: Span, evalResult: EvalResult): void {
+    const steps = evalResult.agent?.steps ?? [];
+    const ROOT = -1;
+    const children = new Map<number, number[]>();
+    const indexByKey = new Map<string, number>();
+    steps.forEach((step, index) => {
+      const parentIndex = step.parentStep === undefined ? ROOT : (indexByKey.get(step.parentStep) ?? ROOT);
+      children.set(parentIndex, [...(children.get(parentIndex) ?? []), index]);
+      const key = step.id ?? step.name;
+      if (!indexByKey.has(key)) indexByKey.set(key, index);
+    });
+
+    const durationOf = (index: number): number => steps[index].duration
+      ?? (children.get(index) ?? []).reduce((total, child) => total + durationOf(child), 0);
+
+    const emitChildren = (parentIndex: number, parentSpan: Span, startTime: number): void => {
+      let cursor = startTime;
+      (children.get(parentIndex) ?? []).forEach((index) => {
+        const step = steps[index];
+        const duration = durationOf(index);
+        const stepSpan = this.tracer.startSpan('gen_ai.agent.step', {
+          kind: SpanKind.INTERNAL,
+          startTime: cursor,
+          attributes: this.buildAgentStepAttributes(step, index),
+        }, trace.setSpan(context.active(), parentSpan));
+        if (step.status === 'failed') {
+          this.setErrorStatus(stepSpan, { type: 'AgentStepError', message: step.error ?? `Agent step ${step.name} failed` });
+        } else if (step.status === 'completed') {
+          stepSpan.setStatus({ code: SpanStatusCode.OK });
+        }
+        emitChildren(index, stepSpan, cursor);
+        stepSpan.end(cursor + duration);
+        cursor += duration;
+      });
+    };
+    emitChildren(ROOT, parent, evalResult.timestamp);
+  }
+
+  private buildAgentStepAttributes(
+    step: NonNullable<NonNullable<EvalResult['agent']>['steps']>[number],
+    index: number,
+  ): Record<string, string | number | boolean> {
+    const attributes: Record<string, string | number | boolean> = {
+      'gen_ai.agent.step.index': index,
+      'gen_ai.agent.step.name': step.name,
+      'gen_ai.agent.step.status': step.status,
+    };
+
+    if (step.id) {
+      attributes['gen_ai.agent.step.id'] = step.id;
+    }
+    if (step.parentStep) {
+      attributes['gen_ai.agent.step.parent'] = step.parentStep;
+    }
+    if (step.type) {
+      attributes['gen_ai.agent.step.type'] = step.type;
+    }
+    if (step.duration !== undefined) {
+      attributes['gen_ai.agent.step.duration'] = step.duration;
+    }
+    return attributes;
+  }
+
   /**
    * Add RAG chunk events to span
    */
@@ -656,9 +1216,12 @@ export class Eval2OtelConverter {
         attributes[ATTR.RAG_CHUNK_EVIDENCE_SHA256] = chunk.evidenceSha256;
       }
 
-      if (this.canAddEvent(span)) {
-        span.addEvent('gen_ai.rag.chunk', attributes);
-      }
+      this.emitEvent(span, evalResult, 'gen_ai.rag.chunk', attributes);
     });
   }
 }
+
+/** A URI that references content elsewhere, as opposed to inlining it (`data:` or bare base64) */
+function isReferenceUri(uri: string): boolean {
+  return /^[a-z][a-z0-9+.-]*:/i.test(uri) && !/^data:/i.test(uri);
+}
@@ -0,0 +1,58 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { z } from 'zod';
+import { ConversionReport, DeadLetterConfig, FailedEvaluation } from './types';
+
+/** One line of a dead-letter JSONL file */
+export interface DeadLetterRecord {
+  failedAt: string;
+  input: unknown;
+  issues?: z.ZodIssue[];
+  report: ConversionReport;
+}
+
+/**
+ * Build the failure passed to `onError` and the dead-letter sink, extracting
+ * schema issues when the input failed EvalResult validation.
+ */
+export function describeFailure(input: unknown, error: unknown, report: ConversionReport): FailedEvaluation {
+  return {
+    input,
+    error,
+    issues: error instanceof z.ZodError ? error.issues : undefined,
+    report,
+  };
+}
+
+/**
+ * Appends failed evaluations to a local JSONL file. Writes are synchronous so
+ * a record is on disk before processEvaluation returns or rethrows.
+ */
+export class DeadLetterSink {
+  private ensuredDir = false;
+
+  constructor(private config: DeadLetterConfig) {}
+
+  write(failure: FailedEvaluation): void {
+    const record: DeadLetterRecord = {
+      failedAt: new Date().toISOString(),
+      input: failure.input,
+      issues: failure.issues,
+      report: failure.report,
+    };
+    if (!this.ensuredDir) {
+      fs.mkdirSync(path.dirname(this.config.path), { recursive: true });
+      this.ensuredDir = true;
+    }
+    fs.appendFileSync(this.config.path, JSON.stringify(record) + '\n');
+  }
+}
+
+/** Read a dead-letter file back, e.g. to fix and replay the rejected inputs */
+export function readDeadLetters(file: string): DeadLetterRecord[] {
+  if (!fs.existsSync(file)) return [];
+  return fs.readFileSync(file, 'utf8')
+    .split('\n')
+    .filter(line => line.trim())
+    .map(line => JSON.parse(line) as DeadLetterRecord);
+}
@@ -0,0 +1,64 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { sha256 } from './contract';
+import { DedupeConfig, EvalResult } from './types';
+
+/**
+ * Key an evaluation on `evalops.eval.id` plus `evalops.raw_payload_sha256`.
+ * Results without a raw payload hash (e.g. EvalResult JSONL) hash the result
+ * itself, so a changed payload under a reused id is still converted.
+ */
+export function dedupeKey(evalResult: EvalResult): string {
+  const payloadHash = evalResult.evidence?.rawPayloadSha256 ?? sha256(evalResult);
+  return `${evalResult.id}:${payloadHash}`;
+}
+
+/**
+ * Remembers converted evaluations. In memory it is an LRU bounded by
+ * `maxEntries`; with `indexPath` every key is kept and appended to the file,
+ * which is loaded on construction so later runs skip earlier work.
+ */
+export class DedupeIndex {
+  private keys = new Map<string, true>();
+  private readonly maxEntries: number;
+  private ensuredDir = false;
+
+  constructor(private config: DedupeConfig = {}) {
+    this.maxEntries = config.indexPath ? Infinity : Math.max(1, config.maxEntries ?? 10000);
+    if (config.indexPath && fs.existsSync(config.indexPath)) {
+      fs.readFileSync(config.indexPath, 'utf8')
+        .split('\n')
+        .filter(line => line.trim())
+        .forEach(line => this.keys.set(line.trim(), true));
+      this.ensuredDir = true;
+    }
+  }
+
+  /** Whether the key was seen; a hit refreshes its LRU position */
+  has(key: string): boolean {
+    if (!this.keys.has(key)) return false;
+    this.keys.delete(key);
+    this.keys.set(key, true);
+    return true;
+  }
+
+  add(key: string): void {
+    if (this.keys.has(key)) return;
+    this.keys.set(key, true);
+    if (this.keys.size > this.maxEntries) {
+      const oldest = this.keys.keys().next().value;
+      if (oldest !== undefined) this.keys.delete(oldest);
+    }
+    if (this.config.indexPath) {
+      if (!this.ensuredDir) {
+        fs.mkdirSync(path.dirname(this.config.indexPath), { recursive: true });
+        this.ensuredDir = true;
+      }
+      fs.appendFileSync(this.config.indexPath, key + '\n');
+    }
+  }
+
+  get size(): number {
+    return this.keys.size;
+  }
+}
@@ -0,0 +1,52 @@
+import { resources, tracing } from '@opentelemetry/sdk-node';
+import { createOtlpTraceExporter } from './exporters';
+import { DestinationConfig, OtelConfig } from './types';
+
+const POLICY_KEYS = [
+  'captureContent',
+  'sampleContentRate',
+  'contentSampler',
+  'contentMaxLength',
+  'markTruncatedContent',
+  'emitOperationalMetadata',
+  'redact',
+  'redactMessageContent',
+  'redactToolArguments',
+  'maxEventsPerSpan',
+] as const;
+
+/**
+ * Merge a destination's privacy policy over the top-level config. Fields the
+ * destination leaves unset inherit the top-level value.
+ */
+export function resolveDestinationConfig(base: OtelConfig, destination: DestinationConfig): OtelConfig {
+  // Destinations only export traces, so their events always stay on the span
+  const resolved: OtelConfig = { ...base, destinations: undefined, eventEmissionMode: 'span-events' };
+  POLICY_KEYS.forEach((key) => {
+    if (destination[key] !== undefined) {
+      (resolved as unknown as Record<string, unknown>)[key] = destination[key];
+    }
+  });
+  return resolved;
+}
+
+/**
+ * Build a standalone tracer provider that exports only to one destination, so
+ * its spans never reach the globally registered pipeline.
+ */
+export function createDestinationTracerProvider(
+  destination: DestinationConfig,
+  resource?: resources.Resource,
+  idGenerator?: tracing.IdGenerator,
+): tracing.BasicTracerProvider {
+  const exporter = createOtlpTraceExporter({
+    endpoint: destination.endpoint,
+    exporterProtocol: destination.exporterProtocol,
+    exporterHeaders: destination.headers,
+  });
+  return new tracing.BasicTracerProvider({
+    resource,
+    idGenerator,
+    spanProcessors: [new tracing.BatchSpanProcessor(exporter)],
+  });
+}
@@ -0,0 +1,131 @@
+import { RESOURCE_DETECTORS } from './resource-detectors';
+import { InstrumentationPreset, OtelConfig } from './types';
+
+type Env = Record<string, string | undefined>;
+
+const PROTOCOLS = ['grpc', 'http/protobuf', 'http/json'] as const;
+const INSTRUMENTATION_PRESETS: InstrumentationPreset[] = ['none', 'http-only', 'all'];
+
+/**
+ * Build an `OtelConfig` from environment variables, mirroring the Python
+ * package's `instrument_all()`. Values in `overrides` win over the environment.
+ * Throws with the offending variable name when a value cannot be parsed.
+ */
+export function configFromEnv(env: Env = process.env, overrides: Partial<OtelConfig> = {}): OtelConfig {
+  const config: OtelConfig = {
+    serviceName: envString(env, 'OTEL_SERVICE_NAME') ?? envString(env, 'EVAL2OTEL_SERVICE_NAME') ?? 'eval2otel',
+  };
+
+  assign(config, 'serviceVersion', envString(env, 'EVAL2OTEL_SERVICE_VERSION'));
+  assign(config, 'environment', envString(env, 'EVAL2OTEL_ENVIRONMENT'));
+  assign(config, 'captureContent', envBool(env, 'EVAL2OTEL_CAPTURE_CONTENT')
+    ?? envBool(env, 'OTEL_INSTRUMENTATION_GENAI_CAPTURE_MESSAGE_CONTENT'));
+  assign(config, 'sampleContentRate', envRate(env, 'EVAL2OTEL_SAMPLE_CONTENT_RATE')
+    ?? envRate(env, 'EVAL2OTEL_SAMPLE_RATE'));
+  assign(config, 'contentMaxLength', envInt(env, 'EVAL2OTEL_CONTENT_MAX_LENGTH'));
+  assign(config, 'markTruncatedContent', envBool(env, 'EVAL2OTEL_MARK_TRUNCATED_CONTENT'));
+  assign(config, 'maxEventsPerSpan', envInt(env, 'EVAL2OTEL_MAX_EVENTS_PER_SPAN'));
+  assign(config, 'enableExemplars', envBool(env, 'EVAL2OTEL_ENABLE_EXEMPLARS'));
+  assign(config, 'metricAttributeAllowlist', envList(env, 'EVAL2OTEL_METRIC_ATTRIBUTE_ALLOWLIST'));
+  assign(config, 'maxMetricAttributes', envInt(env, 'EVAL2OTEL_MAX_METRIC_ATTRIBUTES'));
+  assign(config, 'instrumentations', envEnum(env, 'EVAL2OTEL_INSTRUMENTATIONS', INSTRUMENTATION_PRESETS));
+  assign(config, 'registerShutdownHooks', envBool(env, 'EVAL2OTEL_REGISTER_SHUTDOWN_HOOKS'));
+
+  assign(config, 'endpoint', envString(env, 'OTEL_EXPORTER_OTLP_ENDPOINT'));
+  assign(config, 'exporterProtocol', envEnum(env, 'OTEL_EXPORTER_OTLP_PROTOCOL', PROTOCOLS));
+  assign(config, 'exporterHeaders', envHeaders(env, 'OTEL_EXPORTER_OTLP_HEADERS'));
+  assign(config, 'tracesEndpoint', envString(env, 'OTEL_EXPORTER_OTLP_TRACES_ENDPOINT'));
+  assign(config, 'metricsEndpoint', envString(env, 'OTEL_EXPORTER_OTLP_METRICS_ENDPOINT'));
+  assign(config, 'logsEndpoint', envString(env, 'OTEL_EXPORTER_OTLP_LOGS_ENDPOINT'));
+  assign(config, 'tracesHeaders', envHeaders(env, 'OTEL_EXPORTER_OTLP_TRACES_HEADERS'));
+  assign(config, 'metricsHeaders', envHeaders(env, 'OTEL_EXPORTER_OTLP_METRICS_HEADERS'));
+  assign(config, 'logsHeaders', envHeaders(env, 'OTEL_EXPORTER_OTLP_LOGS_HEADERS'));
+  assign(config, 'resourceAttributes', envHeaders(env, 'OTEL_RESOURCE_ATTRIBUTES'));
+  assign(config, 'resourceDetectors', envEnumList(env, 'EVAL2OTEL_RESOURCE_DETECTORS', RESOURCE_DETECTORS));
+  assign(config, 'semconvStabilityOptIn', envString(env, 'OTEL_SEMCONV_STABILITY_OPT_IN'));
+
+  return { ...config, ...overrides };
+}
+
+function assign<K extends keyof OtelConfig>(config: OtelConfig, key: K, value: OtelConfig[K] | undefined): void {
+  if (value !== undefined) config[key] = value;
+}
+
+function envString(env: Env, name: string): string | undefined {
+  const value = env[name]?.trim();
+  if (!value) return undefined;
+  return value;
+}
+
+function envBool(env: Env, name: string): boolean | undefined {
+  const value = envString(env, name)?.toLowerCase();
+  if (value === undefined) return undefined;
+  if (['1', 'true', 'yes', 'on'].includes(value)) return true;
+  if (['0', 'false', 'no', 'off'].includes(value)) return false;
+  throw new Error(`Invalid ${name}: expected a boolean (true/false/1/0/yes/no/on/off), got "${env[name]}"`);
+}
+
+function envRate(env: Env, name: string): number | undefined {
+  const value = envString(env, name);
+  if (value === undefined) return undefined;
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed) || parsed < 0 || parsed > 1) {
+    throw new Error(`Invalid ${name}: expected a number between 0 and 1, got "${value}"`);
+  }
+  return parsed;
+}
+
+function envInt(env: Env, name: string): number | undefined {
+  const value = envString(env, name);
+  if (value === undefined) return undefined;
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 0) {
+    throw new Error(`Invalid ${name}: expected a non-negative integer, got "${value}"`);
+  }
+  return parsed;
+}
+
+function envList(env: Env, name: string): string[] | undefined {
+  const value = envString(env, name);
+  if (value === undefined) return undefined;
+  return value.split(',').map(part => part.trim()).filter(Boolean);
+}
+
+function envEnum<T extends string>(env: Env, name: string, allowed: readonly T[]): T | undefined {
+  const value = envString(env, name);
+  if (value === undefined) return undefined;
+  if (!(allowed as readonly string[]).includes(value)) {
+    throw new Error(`Invalid ${name}: expected one of ${allowed.join(', ')}, got "${value}"`);
+  }
+  return value as T;
+}
+
+function envEnumList<T extends string>(env: Env, name: string, allowed: readonly T[]): T[] | undefined {
+  const values = envList(env, name);
+  const invalid = values?.find(value => !(allowed as readonly string[]).includes(value));
+  if (invalid !== undefined) {
+    throw new Error(`Invalid ${name}: expected a comma-separated list of ${allowed.join(', ')}, got "${invalid}"`);
+  }
+  return values as T[] | undefined;
+}
+
+/** Parse the OTLP `key=value,key2=value2` list format (values may be URL-encoded) */
+function envHeaders(env: Env, name: string): Record<string, string> | undefined {
+  const value = envString(env, name);
+  if (value === undefined) return undefined;
+  const headers: Record<string, string> = {};
+  value.split(',').map(part => part.trim()).filter(Boolean).forEach((part) => {
+    const separator = part.indexOf('=');
+    if (separator <= 0) {
+      throw new Error(`Invalid ${name}: expected comma-separated key=value pairs, got "${part}"`);
+    }
+    const key = part.slice(0, separator).trim();
+    try {
+      headers[key] = decodeURIComponent(part.slice(separator + 1).trim());
+    } catch {
+      // The value is left out of the message since headers usually carry credentials
+      throw new Error(`Invalid ${name}: header "${key}" has a malformed %-escape in its value`);
+    }
+  });
+  return headers;
+}
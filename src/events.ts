@@ -0,0 +1,53 @@
+import { Context } from '@opentelemetry/api';
+import { AnyValueMap, LogRecord, SeverityNumber } from '@opentelemetry/api-logs';
+import { ATTR } from './attributes';
+
+type EventAttributes = Record<string, string | number | boolean>;
+
+/** Attributes that carry captured content; log records move them into the body */
+const CONTENT_FIELDS: Record<string, string> = {
+  [ATTR.MESSAGE_CONTENT]: 'content',
+  [ATTR.MESSAGE_CONTENT_JSON]: 'content',
+  [ATTR.TOOL_ARGUMENTS]: 'arguments',
+};
+
+/**
+ * Build the Logs API record for a GenAI event. Content moves from attributes
+ * into the body (as the GenAI event conventions expect); `gen_ai.choice`
+ * nests the message under `message` alongside `index` and `finish_reason`.
+ */
+export function buildEventLogRecord(
+  eventName: string,
+  attributes: EventAttributes,
+  options: { context?: Context; timestamp?: Date } = {},
+): LogRecord {
+  const body: AnyValueMap = {};
+  const logAttributes: EventAttributes = {};
+  Object.entries(attributes).forEach(([key, value]) => {
+    const field = CONTENT_FIELDS[key];
+    if (field) body[field] = value;
+    else logAttributes[key] = value;
+  });
+  if (attributes[ATTR.MESSAGE_ROLE] !== undefined) {
+    body.role = attributes[ATTR.MESSAGE_ROLE];
+  }
+
+  const failed = attributes['gen_ai.agent.step.status'] === 'failed';
+  return {
+    eventName,
+    timestamp: options.timestamp,
+    context: options.context,
+    severityNumber: failed ? SeverityNumber.WARN : SeverityNumber.INFO,
+    severityText: failed ? 'WARN' : 'INFO',
+    body: eventName === 'gen_ai.choice' ? choiceBody(attributes, body) : body,
+    attributes: logAttributes,
+  };
+}
+
+function choiceBody(attributes: EventAttributes, message: AnyValueMap): AnyValueMap {
+  return {
+    index: attributes[ATTR.RESPONSE_CHOICE_INDEX],
+    finish_reason: attributes[ATTR.RESPONSE_FINISH_REASON],
+    message,
+  };
+}
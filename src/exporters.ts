@@ -0,0 +1,133 @@
+import { Metadata } from '@grpc/grpc-js';
+import { OTLPLogExporter as OTLPLogExporterGrpc } from '@opentelemetry/exporter-logs-otlp-grpc';
+import { OTLPLogExporter as OTLPLogExporterHttp } from '@opentelemetry/exporter-logs-otlp-http';
+import { OTLPLogExporter as OTLPLogExporterProto } from '@opentelemetry/exporter-logs-otlp-proto';
+import { OTLPMetricExporter as OTLPMetricExporterGrpc } from '@opentelemetry/exporter-metrics-otlp-grpc';
+import { OTLPMetricExporter as OTLPMetricExporterHttp } from '@opentelemetry/exporter-metrics-otlp-http';
+import { OTLPMetricExporter as OTLPMetricExporterProto } from '@opentelemetry/exporter-metrics-otlp-proto';
+import { OTLPTraceExporter as OTLPTraceExporterGrpc } from '@opentelemetry/exporter-trace-otlp-grpc';
+import { OTLPTraceExporter as OTLPTraceExporterHttp } from '@opentelemetry/exporter-trace-otlp-http';
+import { OTLPTraceExporter as OTLPTraceExporterProto } from '@opentelemetry/exporter-trace-otlp-proto';
+import { logs as sdkLogs, metrics as sdkMetrics, tracing } from '@opentelemetry/sdk-node';
+import { OtelConfig } from './types';
+
+export type OtlpSignal = 'traces' | 'metrics' | 'logs';
+
+/** The subset of `OtelConfig` that describes where and how to export OTLP */
+export type OtlpExporterConfig = Pick<OtelConfig,
+  | 'endpoint'
+  | 'exporterProtocol'
+  | 'exporterHeaders'
+  | 'tracesEndpoint'
+  | 'metricsEndpoint'
+  | 'logsEndpoint'
+  | 'tracesHeaders'
+  | 'metricsHeaders'
+  | 'logsHeaders'
+>;
+
+export interface OtlpExporters {
+  traceExporter: tracing.SpanExporter;
+  metricExporter: sdkMetrics.PushMetricExporter;
+  logExporter: sdkLogs.LogRecordExporter;
+}
+
+const SIGNAL_KEYS = {
+  traces: { endpoint: 'tracesEndpoint', headers: 'tracesHeaders' },
+  metrics: { endpoint: 'metricsEndpoint', headers: 'metricsHeaders' },
+  logs: { endpoint: 'logsEndpoint', headers: 'logsHeaders' },
+} as const;
+
+const DEFAULT_PROTOCOL: NonNullable<OtelConfig['exporterProtocol']> = 'http/protobuf';
+
+/**
+ * Whether the config carries any exporter settings. When it does not, the SDK
+ * falls back to its own defaults (including the standard OTEL_* env vars).
+ */
+export function hasExporterConfig(config: OtlpExporterConfig): boolean {
+  const scalars = [config.endpoint, config.exporterProtocol, config.tracesEndpoint, config.metricsEndpoint, config.logsEndpoint];
+  const headers = [config.exporterHeaders, config.tracesHeaders, config.metricsHeaders, config.logsHeaders];
+  return scalars.some(Boolean) || headers.some(h => h !== undefined && Object.keys(h).length > 0);
+}
+
+/**
+ * Resolve the export URL for a signal. Signal-specific endpoints are used as-is;
+ * the base endpoint gets the OTLP/HTTP signal path appended (gRPC uses it directly).
+ */
+export function resolveSignalEndpoint(config: OtlpExporterConfig, signal: OtlpSignal): string | undefined {
+  const specific = config[SIGNAL_KEYS[signal].endpoint];
+  if (specific) return specific;
+  if (!config.endpoint) return undefined;
+  if ((config.exporterProtocol ?? DEFAULT_PROTOCOL) === 'grpc') return config.endpoint;
+  return `${config.endpoint.replace(/\/+$/, '')}/v1/${signal}`;
+}
+
+/** Resolve headers for a signal; signal-specific headers override the global ones */
+export function resolveSignalHeaders(config: OtlpExporterConfig, signal: OtlpSignal): Record<string, string> | undefined {
+  const specific = config[SIGNAL_KEYS[signal].headers];
+  if (specific && Object.keys(specific).length > 0) return specific;
+  if (config.exporterHeaders && Object.keys(config.exporterHeaders).length > 0) return config.exporterHeaders;
+  return undefined;
+}
+
+/**
+ * Build OTLP trace, metric and log exporters for one configuration without
+ * touching process.env, so several instances can export to different backends.
+ */
+export function createOtlpExporters(config: OtlpExporterConfig): OtlpExporters {
+  return {
+    traceExporter: createOtlpTraceExporter(config),
+    metricExporter: createOtlpMetricExporter(config),
+    logExporter: createOtlpLogExporter(config),
+  };
+}
+
+export function createOtlpTraceExporter(config: OtlpExporterConfig): tracing.SpanExporter {
+  const options = signalOptions(config, 'traces');
+  switch (config.exporterProtocol ?? DEFAULT_PROTOCOL) {
+    case 'grpc':
+      return new OTLPTraceExporterGrpc(grpcOptions(options));
+    case 'http/json':
+      return new OTLPTraceExporterHttp(options);
+    default:
+      return new OTLPTraceExporterProto(options);
+  }
+}
+
+export function createOtlpMetricExporter(config: OtlpExporterConfig): sdkMetrics.PushMetricExporter {
+  const options = signalOptions(config, 'metrics');
+  switch (config.exporterProtocol ?? DEFAULT_PROTOCOL) {
+    case 'grpc':
+      return new OTLPMetricExporterGrpc(grpcOptions(options));
+    case 'http/json':
+      return new OTLPMetricExporterHttp(options);
+    default:
+      return new OTLPMetricExporterProto(options);
+  }
+}
+
+export function createOtlpLogExporter(config: OtlpExporterConfig): sdkLogs.LogRecordExporter {
+  const options = signalOptions(config, 'logs');
+  switch (config.exporterProtocol ?? DEFAULT_PROTOCOL) {
+    case 'grpc':
+      return new OTLPLogExporterGrpc(grpcOptions(options));
+    case 'http/json':
+      return new OTLPLogExporterHttp(options);
+    default:
+      return new OTLPLogExporterProto(options);
+  }
+}
+
+function signalOptions(config: OtlpExporterConfig, signal: OtlpSignal): { url?: string; headers?: Record<string, string> } {
+  return {
+    url: resolveSignalEndpoint(config, signal),
+    headers: resolveSignalHeaders(config, signal),
+  };
+}
+
+function grpcOptions(options: { url?: string; headers?: Record<string, string> }): { url?: string; metadata?: Metadata } {
+  if (!options.headers) return { url: options.url };
+  const metadata = new Metadata();
+  Object.entries(options.headers).forEach(([key, value]) => metadata.set(key, value));
+  return { url: options.url, metadata };
+}
@@ -0,0 +1,73 @@
+import { isValidSpanId, isValidTraceId } from '@opentelemetry/api';
+import { tracing } from '@opentelemetry/sdk-node';
+import { sha256 } from './contract';
+import { DeterministicIdsConfig, EvalResult } from './types';
+
+export interface DerivedIds {
+  traceId?: string;
+  spanId?: string;
+}
+
+/** Trace id for a run: the first 32 hex characters of sha256(runId) */
+export function deriveTraceId(runId: string): string {
+  return sha256(runId).slice(0, 32);
+}
+
+/** Span id for a key (by default the evaluation id): the first 16 hex characters of sha256(key) */
+export function deriveSpanId(key: string): string {
+  return sha256(key).slice(0, 16);
+}
+
+/**
+ * Ids for an evaluation span. The trace id comes from `provenance.runId`, so
+ * every case in a run shares a trace; results without a run id get a trace of
+ * their own derived from the span key.
+ */
+export function deriveEvalIds(evalResult: EvalResult, config: DeterministicIdsConfig = {}): DerivedIds {
+  const key = config.spanIdKey?.(evalResult) ?? evalResult.id;
+  return {
+    traceId: deriveTraceId(evalResult.provenance?.runId ?? key),
+    spanId: deriveSpanId(key),
+  };
+}
+
+/** Ids for the `evalops.run` span: the run's trace plus a span id keyed on `run:<runId>` */
+export function deriveRunIds(runId: string): DerivedIds {
+  return { traceId: deriveTraceId(runId), spanId: deriveSpanId(`run:${runId}`) };
+}
+
+/**
+ * An `IdGenerator` that hands out derived ids for the span being started inside
+ * `withIds` and random ids otherwise, so child spans and unrelated work are
+ * unaffected. Install it in the tracer provider that eval2otel emits through.
+ */
+export class DeterministicIdGenerator implements tracing.IdGenerator {
+  private pending?: DerivedIds;
+  private random = new tracing.RandomIdGenerator();
+
+  /**
+   * Run `fn` (which should start exactly one span) with `ids` pending. Each id
+   * is used once; the trace id only applies when the span has no parent.
+   */
+  withIds<T>(ids: DerivedIds, fn: () => T): T {
+    const previous = this.pending;
+    this.pending = { ...ids };
+    try {
+      return fn();
+    } finally {
+      this.pending = previous;
+    }
+  }
+
+  generateTraceId(): string {
+    const traceId = this.pending?.traceId;
+    if (this.pending) this.pending.traceId = undefined;
+    return traceId && isValidTraceId(traceId) ? traceId : this.random.generateTraceId();
+  }
+
+  generateSpanId(): string {
+    const spanId = this.pending?.spanId;
+    if (this.pending) this.pending.spanId = undefined;
+    return spanId && isValidSpanId(spanId) ? spanId : this.random.generateSpanId();
+  }
+}
@@ -1,28 +1,108 @@
-import { NodeSDK } from '@opentelemetry/sdk-node';
-import { getNodeAutoInstrumentations } from '@opentelemetry/auto-instrumentations-node';
+import { context, metrics, trace } from '@opentelemetry/api';
+import { logs } from '@opentelemetry/api-logs';
+import {
+  NodeSDK,
+  NodeSDKConfiguration,
+  logs as sdkLogs,
+  metrics as sdkMetrics,
+  resources,
+  tracing,
+} from '@opentelemetry/sdk-node';
 import { defaultResource, resourceFromAttributes } from '@opentelemetry/resources';
 import { SemanticResourceAttributes } from '@opentelemetry/semantic-conventions';
 
 import { Eval2OtelConverter } from './converter';
 import { Eval2OtelMetrics } from './metrics';
-import { buildFailureConversionReport } from './contract';
-import { EvalResult, OtelConfig, ProcessOptions } from './types';
+import { ATTR } from './attributes';
+import { validateOtelConfig } from './config';
+import { ConversationTracker } from './conversations';
+import { buildBatchConversionReport, buildDuplicateConversionReport, buildFailureConversionReport } from './contract';
+import { DeadLetterSink, describeFailure } from './dead-letter';
+import { DedupeIndex, dedupeKey } from './dedupe';
+import { createDestinationTracerProvider } from './destinations';
+import { configFromEnv } from './env';
+import { createOtlpExporters, hasExporterConfig } from './exporters';
+import { DeterministicIdGenerator } from './ids';
+import { resolveInstrumentations } from './instrumentations';
+import { applyAfterConvert, applyBeforeConvert, applyBeforeRecordMetrics } from './processors';
+import { BoundedQueue, QueueStats } from './queue';
+import { detectResourceAttributes } from './resource-detectors';
+import { RunHandle } from './run';
+import { installShutdownHooks } from './shutdown';
+import { WorkflowHierarchy } from './workflows';
+import { ActiveEvalSpan, BatchConversionReport, ConversionReport, ConversionWarning, EvalProcessor, EvalResult, FailedEvaluation, OtelConfig, ProcessOptions, RunOptions } from './types';
 
 export class Eval2Otel {
   private converter: Eval2OtelConverter;
   private metrics: Eval2OtelMetrics;
   private sdk?: NodeSDK;
   private config: OtelConfig;
+  private queue: BoundedQueue<QueuedEvaluation>;
+  private destinationProviders: tracing.BasicTracerProvider[] = [];
+  private configWarnings: ConversionWarning[];
+  private processors: EvalProcessor[];
+  private deadLetter?: DeadLetterSink;
+  private dedupe?: DedupeIndex;
+  private workflows?: WorkflowHierarchy;
+  private conversations?: ConversationTracker;
+  private removeShutdownHooks?: () => void;
 
   constructor(config: OtelConfig) {
+    this.configWarnings = validateOtelConfig(config).warnings;
     // Set defaults for privacy and sampling
     this.config = {
       captureContent: false, // Default to false for privacy
       sampleContentRate: 1.0,
       ...config,
     };
-    this.converter = new Eval2OtelConverter(this.config);
+    if (this.config.deterministicIds) {
+      this.config.deterministicIds = {
+        ...this.config.deterministicIds,
+        idGenerator: this.config.deterministicIds.idGenerator ?? new DeterministicIdGenerator(),
+      };
+    }
+    this.processors = [...(this.config.processors ?? [])];
+    this.converter = new Eval2OtelConverter(
+      this.config,
+      this.config.tracerProvider?.getTracer('eval2otel', this.config.serviceVersion),
+    );
+    this.converter.addAfterConvertHook((span, report, result) => applyAfterConvert(this.processors, span, report, result));
     this.metrics = new Eval2OtelMetrics(this.config);
+    if (this.config.deadLetter) {
+      this.deadLetter = new DeadLetterSink(this.config.deadLetter);
+    }
+    if (this.config.dedupe) {
+      this.dedupe = new DedupeIndex(this.config.dedupe);
+    }
+    if (this.config.conversationTracking) {
+      const conversations = new ConversationTracker(this.config.conversationTracking);
+      this.conversations = conversations;
+      this.converter.addAfterConvertHook((span, _report, result) => conversations.record(result, span.spanContext()));
+    }
+    if (this.config.workflowHierarchy) {
+      this.workflows = new WorkflowHierarchy((workflow, options) => this.converter.startWorkflowSpan(workflow, options));
+    }
+    (this.config.destinations ?? []).forEach((destination) => {
+      const provider = createDestinationTracerProvider(destination, this.buildResource(), this.config.deterministicIds?.idGenerator);
+      this.destinationProviders.push(provider);
+      this.converter.addDestination(destination, provider.getTracer('eval2otel', this.config.serviceVersion));
+    });
+    this.queue = new BoundedQueue(
+      (item) => { this.processEvaluation(item.evalResult, item.options); },
+      this.config.queue,
+    );
+    const shutdownHooks = this.config.registerShutdownHooks;
+    if (shutdownHooks) {
+      this.removeShutdownHooks = installShutdownHooks(this, shutdownHooks === true ? {} : shutdownHooks);
+    }
+  }
+
+  /**
+   * Create an instance configured from EVAL2OTEL_* and standard OTEL_* environment
+   * variables. Explicit `overrides` take precedence over the environment.
+   */
+  static fromEnv(overrides: Partial<OtelConfig> = {}, env: NodeJS.ProcessEnv = process.env): Eval2Otel {
+    return new Eval2Otel(configFromEnv(env, overrides));
   }
 
   /**
@@ -30,22 +110,42 @@ export class Eval2Otel {
    */
   initialize(): void {
     if (this.config.useSdk === false) {
-      // Honor semconv env passthrough even in no-SDK mode
-      if (!process.env.OTEL_SEMCONV_STABILITY_OPT_IN && this.config.semconvStabilityOptIn) {
-        process.env.OTEL_SEMCONV_STABILITY_OPT_IN = this.config.semconvStabilityOptIn;
-      }
-      if (!process.env.OTEL_SEMCONV_GA_VERSION && this.config.semconvGaVersion) {
-        (process.env as any).OTEL_SEMCONV_GA_VERSION = this.config.semconvGaVersion;
-      }
-      // Still allow users to set OTLP env for their own SDK
-      if (this.config.endpoint) process.env.OTEL_EXPORTER_OTLP_ENDPOINT = this.config.endpoint;
-      if (this.config.exporterProtocol) process.env.OTEL_EXPORTER_OTLP_PROTOCOL = this.config.exporterProtocol;
-      if (this.config.exporterHeaders && Object.keys(this.config.exporterHeaders).length > 0) {
-        process.env.OTEL_EXPORTER_OTLP_HEADERS = Object.entries(this.config.exporterHeaders)
-          .map(([k, v]) => `${k}=${String(v)}`).join(',');
-      }
-      return; // No SDK initialization
+      return; // No SDK initialization; use createOtlpExporters() to configure your own SDK
     }
+    const resource = this.buildResource();
+
+    const sdkConfig: Partial<NodeSDKConfiguration> = {
+      resource,
+      instrumentations: resolveInstrumentations(this.config.instrumentations),
+    };
+    if (this.config.deterministicIds?.idGenerator) {
+      sdkConfig.idGenerator = this.config.deterministicIds.idGenerator;
+    }
+
+    // Build exporters per instance instead of routing config through process.env,
+    // so several Eval2Otel instances in one process can target different backends
+    if (hasExporterConfig(this.config)) {
+      const exporters = createOtlpExporters(this.config);
+      sdkConfig.spanProcessors = [new tracing.BatchSpanProcessor(exporters.traceExporter)];
+      sdkConfig.metricReaders = [new sdkMetrics.PeriodicExportingMetricReader({ exporter: exporters.metricExporter })];
+      sdkConfig.logRecordProcessors = [new sdkLogs.BatchLogRecordProcessor(exporters.logExporter)];
+    }
+
+    // Use provided SDK if supplied; otherwise create one
+    if (this.config.sdk && typeof (this.config.sdk as any).start === 'function') {
+      this.sdk = this.config.sdk as unknown as NodeSDK;
+    } else {
+      this.sdk = new NodeSDK(sdkConfig);
+    }
+    if (this.config.manageSdkLifecycle !== false) {
+      this.sdk.start();
+    }
+  }
+
+  /**
+   * Build the service resource, merged with the default resource to preserve host/runtime attrs
+   */
+  private buildResource(): resources.Resource {
     const baseResource = defaultResource();
 
     // Determine final service.name respecting environment precedence
@@ -54,6 +154,8 @@ export class Eval2Otel {
     const finalServiceName = (envServiceName as string | undefined) ?? this.config.serviceName;
 
     const resourceAttributes: Record<string, string> = {
+      // Detected VCS/CI attributes first so explicit config overrides them
+      ...detectResourceAttributes(this.config.resourceDetectors ?? []),
       [SemanticResourceAttributes.SERVICE_NAME]: finalServiceName,
       [SemanticResourceAttributes.SERVICE_VERSION]: this.config.serviceVersion ?? '1.0.0',
     };
@@ -70,118 +172,255 @@ export class Eval2Otel {
       });
     }
 
-    // Merge with default resource to preserve host/runtime attrs
-    const resource = baseResource.merge(resourceFromAttributes(resourceAttributes));
-
-    const sdkConfig = {
-      resource,
-      instrumentations: [getNodeAutoInstrumentations()],
-    };
-
-    // Add endpoint configuration if provided
-    if (this.config.endpoint) {
-      process.env.OTEL_EXPORTER_OTLP_ENDPOINT = this.config.endpoint;
-    }
-    if (this.config.exporterProtocol) {
-      process.env.OTEL_EXPORTER_OTLP_PROTOCOL = this.config.exporterProtocol;
-    }
-    if (this.config.exporterHeaders && Object.keys(this.config.exporterHeaders).length > 0) {
-      // Join as k=v pairs separated by commas per OTLP env format
-      process.env.OTEL_EXPORTER_OTLP_HEADERS = Object.entries(this.config.exporterHeaders)
-        .map(([k, v]) => `${k}=${String(v)}`)
-        .join(',');
-    }
-
-    // Signal-specific overrides
-    if (this.config.tracesEndpoint) {
-      process.env.OTEL_EXPORTER_OTLP_TRACES_ENDPOINT = this.config.tracesEndpoint;
-    }
-    if (this.config.metricsEndpoint) {
-      process.env.OTEL_EXPORTER_OTLP_METRICS_ENDPOINT = this.config.metricsEndpoint;
-    }
-    if (this.config.logsEndpoint) {
-      process.env.OTEL_EXPORTER_OTLP_LOGS_ENDPOINT = this.config.logsEndpoint;
-    }
-    if (this.config.tracesHeaders && Object.keys(this.config.tracesHeaders).length > 0) {
-      process.env.OTEL_EXPORTER_OTLP_TRACES_HEADERS = Object.entries(this.config.tracesHeaders)
-        .map(([k, v]) => `${k}=${String(v)}`)
-        .join(',');
-    }
-    if (this.config.metricsHeaders && Object.keys(this.config.metricsHeaders).length > 0) {
-      process.env.OTEL_EXPORTER_OTLP_METRICS_HEADERS = Object.entries(this.config.metricsHeaders)
-        .map(([k, v]) => `${k}=${String(v)}`)
-        .join(',');
-    }
-    if (this.config.logsHeaders && Object.keys(this.config.logsHeaders).length > 0) {
-      process.env.OTEL_EXPORTER_OTLP_LOGS_HEADERS = Object.entries(this.config.logsHeaders)
-        .map(([k, v]) => `${k}=${String(v)}`)
-        .join(',');
-    }
-
-    // Semantic convention stability env passthrough
-    if (!process.env.OTEL_SEMCONV_STABILITY_OPT_IN && this.config.semconvStabilityOptIn) {
-      process.env.OTEL_SEMCONV_STABILITY_OPT_IN = this.config.semconvStabilityOptIn;
-    }
-    if (!process.env.OTEL_SEMCONV_GA_VERSION && this.config.semconvGaVersion) {
-      // Some SDKs look for GA version pin; set if provided
-      (process.env as any).OTEL_SEMCONV_GA_VERSION = this.config.semconvGaVersion;
-    }
+    return baseResource.merge(resourceFromAttributes(resourceAttributes));
+  }
 
-    // Use provided SDK if supplied; otherwise create one
-    if (this.config.sdk && typeof (this.config.sdk as any).start === 'function') {
-      this.sdk = this.config.sdk as unknown as NodeSDK;
-    } else {
-      this.sdk = new NodeSDK(sdkConfig);
-    }
-    if (this.config.manageSdkLifecycle !== false) {
-      this.sdk.start();
-    }
+  /**
+   * Drain queued evaluations and force-flush the trace, metric and log
+   * providers without shutting the SDK down
+   */
+  async flush(): Promise<void> {
+    await this.queue.onIdle();
+    await Promise.all([
+      forceFlushProvider(this.config.tracerProvider ?? trace.getTracerProvider()),
+      forceFlushProvider(this.config.meterProvider ?? metrics.getMeterProvider()),
+      forceFlushProvider(this.config.loggerProvider ?? logs.getLoggerProvider()),
+      ...this.destinationProviders.map(provider => forceFlushProvider(provider)),
+    ]);
   }
 
   /**
-   * Shutdown OpenTelemetry SDK
+   * Flush, then shut down the destination pipelines and (when managed) the
+   * OpenTelemetry SDK. Flushing first exports spans buffered by providers the
+   * SDK does not own (`useSdk: false`, `tracerProvider`, `manageSdkLifecycle: false`).
    */
   async shutdown(): Promise<void> {
+    this.removeShutdownHooks?.();
+    await this.flush();
+    await Promise.all(this.destinationProviders.map(provider => provider.shutdown()));
     if (this.sdk && this.config.manageSdkLifecycle !== false) {
       await this.sdk.shutdown();
     }
   }
 
   /**
-   * Process a single evaluation result with optional additional context
+   * Register a processor at the end of the pipeline. processEvaluation runs
+   * every hook; withSpan runs afterConvert and beforeRecordMetrics only.
    */
-  processEvaluation(evalResult: EvalResult, options?: ProcessOptions): void {
+  use(processor: EvalProcessor): this {
+    this.processors.push(processor);
+    return this;
+  }
+
+  /**
+   * Process a single evaluation result with optional additional context.
+   * Returns one conversion report per result that left the processor pipeline
+   * (none when vetoed, several when split); failed conversions yield a failure
+   * report when onError does not throw, and results skipped by `dedupe` yield
+   * a report with `duplicate: true`.
+   */
+  processEvaluation(evalResult: EvalResult, options?: ProcessOptions): ConversionReport[] {
+    const startedAt = Date.now();
+    let results: EvalResult[];
+    try {
+      // Processors work on a copy, so failures dead-letter the input as passed in
+      const input = this.processors.some(processor => processor.beforeConvert) ? structuredClone(evalResult) : evalResult;
+      results = applyBeforeConvert(this.processors, input, options);
+    } catch (error) {
+      return [this.failConversion(evalResult, error, startedAt)];
+    }
+    return results.map(result => this.convertAndRecord(result, options, evalResult));
+  }
+
+  private convertAndRecord(evalResult: EvalResult, options: ProcessOptions | undefined, input: EvalResult): ConversionReport {
     const startedAt = Date.now();
+    let key: string | undefined;
+    let report: ConversionReport;
     try {
+      if (this.dedupe) {
+        key = dedupeKey(evalResult);
+        if (this.dedupe.has(key)) return buildDuplicateConversionReport(evalResult, this.config);
+      }
+
       // Convert to OpenTelemetry spans and events
-      const report = this.converter.convertEvalResult(evalResult, options);
+      report = this.converter.convertEvalResult(evalResult, this.withConversationTurn(evalResult, options));
+      // Sampled-out turns still count toward the turn index
+      if (report.sampled === false) this.conversations?.record(evalResult);
       
       // Record metrics
-      this.metrics.recordMetrics(evalResult, options);
+      const metricsResult = applyBeforeRecordMetrics(this.processors, evalResult, options);
+      if (metricsResult) this.metrics.recordMetrics(metricsResult, options);
       this.metrics.recordConversionTelemetry(evalResult, report);
     } catch (error) {
-      const report = buildFailureConversionReport(evalResult, this.config, error, Date.now() - startedAt);
-      this.metrics.recordConversionTelemetry(evalResult, report);
-      console.error('Error processing evaluation:', error);
-      throw error; // Re-throw for proper error handling
+      return this.failConversion(evalResult, error, startedAt, input);
+    }
+    // Only successful conversions are remembered, so failed items can be retried
+    if (key !== undefined) this.rememberConverted(key);
+    return report;
+  }
+
+  /**
+   * Link to the previous turn of the evaluation's conversation, tag the turn
+   * index, and skip already-emitted messages when configured
+   */
+  private withConversationTurn(evalResult: EvalResult, options?: ProcessOptions): ProcessOptions | undefined {
+    const turn = this.conversations?.nextTurn(evalResult);
+    if (!turn) return options;
+    return {
+      ...options,
+      links: turn.previous
+        ? [...(options?.links ?? []), { context: turn.previous, attributes: { [ATTR.CONVERSATION_TURN_INDEX]: turn.turnIndex - 1 } }]
+        : options?.links,
+      attributes: { ...options?.attributes, [ATTR.CONVERSATION_TURN_INDEX]: turn.turnIndex },
+      conversationMessageOffset: this.config.conversationTracking?.emitNewMessagesOnly
+        ? turn.newMessageOffset
+        : options?.conversationMessageOffset,
+    };
+  }
+
+  private rememberConverted(key: string): void {
+    try {
+      this.dedupe?.add(key);
+    } catch (writeError) {
+      console.error('Error writing eval2otel dedupe index:', writeError);
     }
   }
 
   /**
-   * Process multiple evaluation results
+   * Report a failed conversion of `evalResult`; `input` is what the caller
+   * passed in before processors ran, for onError and the dead letter
+   */
+  private failConversion(evalResult: EvalResult, error: unknown, startedAt: number, input: unknown = evalResult): ConversionReport {
+    const report = buildFailureConversionReport(evalResult, this.config, error, Date.now() - startedAt);
+    this.metrics.recordConversionTelemetry(evalResult, report);
+    this.handleFailure(describeFailure(input, error, report));
+    return report;
+  }
+
+  /**
+   * Dead-letter a failed conversion, then apply the configured onError policy
+   */
+  private handleFailure(failure: FailedEvaluation): void {
+    if (this.deadLetter) {
+      try {
+        this.deadLetter.write(failure);
+      } catch (writeError) {
+        console.error('Error writing eval2otel dead letter:', writeError);
+      }
+    }
+    const policy = this.config.onError ?? 'throw';
+    if (typeof policy === 'function') {
+      policy(failure);
+      return;
+    }
+    if (policy === 'skip') return;
+    console.error('Error processing evaluation:', failure.error);
+    if (policy === 'throw') {
+      throw failure.error; // Re-throw for proper error handling
+    }
+  }
+
+  /**
+   * Open an eval run. Cases processed through the returned handle become
+   * children of one `evalops.run` span, so the whole run is a single trace;
+   * `end()` records case, pass/fail, token, duration and warning aggregates.
+   */
+  startRun(options: RunOptions): RunHandle {
+    const span = this.converter.startRunSpan(options);
+    return new RunHandle(span, options, (evalResult, processOptions) => this.processEvaluation(evalResult, processOptions));
+  }
+
+  /**
+   * Process multiple evaluation results. With `workflowHierarchy`, results
+   * are parented under synthesized workflow spans rebuilt from the batch.
+   */
+  processEvaluations(evalResults: EvalResult[], options?: ProcessOptions): BatchConversionReport {
+    const startedAt = Date.now();
+    const processOne = (result: EvalResult, processOptions?: ProcessOptions) => this.processEvaluation(result, processOptions);
+    const reports = this.workflows
+      ? this.workflows.process(evalResults, options, processOne)
+      : evalResults.flatMap(result => processOne(result, options));
+    return buildBatchConversionReport(reports, Date.now() - startedAt);
+  }
+
+  /**
+   * Buffer an evaluation for asynchronous processing. Resolves true once the
+   * evaluation is accepted (waiting for space under the 'block' policy) and
+   * false if it was dropped under the 'drop-newest' policy.
    */
-  processEvaluations(evalResults: EvalResult[], options?: ProcessOptions): void {
-    evalResults.forEach(result => this.processEvaluation(result, options));
+  enqueue(evalResult: EvalResult, options?: ProcessOptions): Promise<boolean> {
+    const { accepted, done } = this.queue.push({ evalResult, options });
+    // Failures are already reported by processEvaluation; fire-and-forget callers don't observe them
+    done.catch(() => undefined);
+    return accepted;
   }
 
   /**
-   * Helper to run a function within an evaluation span context
+   * Process an evaluation through the bounded queue. Resolves once it has been
+   * converted and recorded; rejects if processing fails or it is dropped.
+   */
+  processEvaluationAsync(evalResult: EvalResult, options?: ProcessOptions): Promise<void> {
+    return this.queue.push({ evalResult, options }).done;
+  }
+
+  /**
+   * Current buffer depth, in-flight work and drop counts for the async queue
+   */
+  getQueueStats(): QueueStats {
+    return this.queue.stats();
+  }
+
+  /**
+   * Run a function inside an active evaluation span. Work started by `fn`
+   * (including auto-instrumented HTTP/DB calls) becomes a child of the span,
+   * thrown errors are recorded as span exceptions, and the span ends with the
+   * real elapsed time once `fn` settles. `spanSampling` and conversation
+   * tracking apply as in `processEvaluation` (sampling is decided before `fn`
+   * runs, and a sampled-out `fn` runs without a span). Conversion failures go
+   * through `onError`; under a non-throwing policy `fn` still runs untraced,
+   * and an error thrown by `fn` always wins over one from recording it.
    */
   async withSpan<T>(evalResult: EvalResult, fn: () => Promise<T> | T, options?: ProcessOptions): Promise<T> {
-    // For now, just process the evaluation and run the function
-    // In a full implementation, this would create an active span context
-    this.processEvaluation(evalResult, options);
-    return await fn();
+    const startedAt = Date.now();
+    let active: ActiveEvalSpan | undefined;
+    let sampledOut: ConversionReport | undefined;
+    try {
+      sampledOut = this.converter.sampleOutEvalSpan(evalResult);
+      if (!sampledOut) active = this.converter.startEvalSpan(evalResult, this.withConversationTurn(evalResult, options));
+    } catch (error) {
+      this.failConversion(evalResult, error, startedAt);
+      return fn();
+    }
+
+    const spanContext = active ? trace.setSpan(context.active(), active.span) : context.active();
+    const finish = (error?: unknown) => context.with(spanContext, () => {
+      try {
+        const report = active ? this.converter.endEvalSpan(active, error) : sampledOut!;
+        // Sampled-out turns still count toward the turn index
+        if (!active) this.conversations?.record(evalResult);
+        const recorded = active?.evalResult ?? evalResult;
+        const metricsResult = applyBeforeRecordMetrics(this.processors, recorded, options);
+        if (metricsResult) this.metrics.recordMetrics(metricsResult, options);
+        this.metrics.recordConversionTelemetry(recorded, report);
+      } catch (finishError) {
+        try {
+          this.failConversion(evalResult, finishError, startedAt);
+        } catch (policyError) {
+          // Never hide the error thrown by fn
+          if (error === undefined) throw policyError;
+        }
+      }
+    });
+
+    let result: T;
+    try {
+      result = await context.with(spanContext, fn);
+    } catch (error) {
+      finish(error);
+      throw error;
+    }
+    finish();
+    return result;
   }
 
   /**
@@ -204,6 +443,13 @@ export class Eval2Otel {
     this.metrics.recordEvaluationMetrics(evalResult, qualityMetrics);
   }
 
+  /**
+   * Get warnings about accepted-but-ineffective option combinations found at construction
+   */
+  getConfigWarnings(): ConversionWarning[] {
+    return [...this.configWarnings];
+  }
+
   /**
    * Get the converter instance for advanced usage
    */
@@ -219,10 +465,41 @@ export class Eval2Otel {
   }
 }
 
+interface QueuedEvaluation {
+  evalResult: EvalResult;
+  options?: ProcessOptions;
+}
+
+async function forceFlushProvider(provider: unknown): Promise<void> {
+  // Global API providers are proxies; flush the registered SDK delegate
+  const p = provider as { getDelegate?: () => unknown; _getDelegate?: () => unknown; forceFlush?: () => Promise<void> };
+  const target = (p.getDelegate?.() ?? p._getDelegate?.() ?? p) as { forceFlush?: () => Promise<void> };
+  if (typeof target.forceFlush === 'function') {
+    await target.forceFlush();
+  }
+}
+
 // Re-export types and classes
 export {
+  ActiveEvalSpan,
+  AgentStepMode,
+  BatchConversionReport,
+  ContentPart,
   ConversionReport,
+  ConversationTrackingConfig,
   ConversionWarning,
+  DeadLetterConfig,
+  DedupeConfig,
+  DeterministicIdsConfig,
+  DestinationConfig,
+  DestinationConversionReport,
+  ErrorPolicy,
+  EvalProcessor,
+  EventEmissionMode,
+  FailedEvaluation,
+  InstrumentationOption,
+  InstrumentationPreset,
+  MessageFormat,
   Eval2OtelEvidence,
   Eval2OtelProvenance,
   EvalResult,
@@ -232,13 +509,63 @@ export {
   ProviderAdapterInput,
   ProcessOptions,
   ProviderConversionResult,
+  QueueOptions,
+  QueueOverflowPolicy,
+  ResourceDetectorName,
+  RunOptions,
+  RunSummary,
+  ShutdownHooksConfig,
+  SpanSamplingConfig,
+  ToolCallMode,
 } from './types';
+export { BoundedQueue, type QueuePushResult, type QueueStats } from './queue';
+export { RunHandle } from './run';
+export { WorkflowHierarchy, type WorkflowSpanOptions } from './workflows';
+export { ConversationTracker, type ConversationTurn } from './conversations';
+export { flushForShutdown, installShutdownHooks, type ShutdownFlushResult, type ShutdownProcess, type ShutdownTarget } from './shutdown';
+export { createDestinationTracerProvider, resolveDestinationConfig } from './destinations';
+export { resolveInstrumentations } from './instrumentations';
+export { configFromEnv } from './env';
+export {
+  RESOURCE_DETECTORS,
+  VCS_ATTR,
+  detectCiAttributes,
+  detectGitAttributes,
+  detectResourceAttributes,
+} from './resource-detectors';
+export { loadProcessorModule } from './processors';
+export { decideSpanSampling, isNotableOutcome, type SpanSamplingDecision } from './sampling';
+export { DeadLetterSink, readDeadLetters, type DeadLetterRecord } from './dead-letter';
+export { DedupeIndex, dedupeKey } from './dedupe';
+export { DeterministicIdGenerator, deriveEvalIds, deriveRunIds, deriveSpanId, deriveTraceId, type DerivedIds } from './ids';
+export {
+  DestinationConfigSchema,
+  OtelConfigSchema,
+  QueueOptionsSchema,
+  validateOtelConfig,
+  type ConfigValidationResult,
+} from './config';
+export {
+  createOtlpExporters,
+  createOtlpLogExporter,
+  createOtlpMetricExporter,
+  createOtlpTraceExporter,
+  hasExporterConfig,
+  resolveSignalEndpoint,
+  resolveSignalHeaders,
+  type OtlpExporterConfig,
+  type OtlpExporters,
+  type OtlpSignal,
+} from './exporters';
 export { Eval2OtelConverter } from './converter';
 export { Eval2OtelMetrics } from './metrics';
 export {
   EVAL2OTEL_CONTRACT_VERSION,
+  EVAL2OTEL_REQUIRED_SPAN_ATTRIBUTES,
   UNKNOWN_SEMCONV_VERSION,
+  buildBatchConversionReport,
   buildConversionReport,
+  buildDuplicateConversionReport,
   buildEval2OtelAttributes,
   buildEval2OtelEvidence,
   normalizeProviderName,
@@ -263,6 +590,17 @@ export {
   getRagMetricValue,
   type RagDerivedMetrics,
 } from './rag';
+export {
+  parseStreamLine,
+  reassembleAnthropicStream,
+  reassembleOllamaStream,
+  reassembleOpenAIChatStream,
+  type AnthropicStreamEvent,
+  type OllamaStreamChunk,
+  type OpenAIChatStreamChunk,
+  type StreamReassemblyOptions,
+  type TimestampedChunk,
+} from './streams';
 export { detectProvider, convertProviderToEvalResult, convertProviderWithEvidence, convertAnyProvider, type ProviderMode } from './helpers';
 export {
   convertDeepEvalResult,
@@ -319,3 +657,10 @@ export function createEval2Otel(config: OtelConfig): Eval2Otel {
   eval2otel.initialize();
   return eval2otel;
 }
+
+/** Like `createEval2Otel`, but reads configuration from the environment (see `Eval2Otel.fromEnv`) */
+export function createEval2OtelFromEnv(overrides: Partial<OtelConfig> = {}): Eval2Otel {
+  const eval2otel = Eval2Otel.fromEnv(overrides);
+  eval2otel.initialize();
+  return eval2otel;
+}
@@ -0,0 +1,24 @@
+import { getNodeAutoInstrumentations } from '@opentelemetry/auto-instrumentations-node';
+import { HttpInstrumentation } from '@opentelemetry/instrumentation-http';
+import { UndiciInstrumentation } from '@opentelemetry/instrumentation-undici';
+import { InstrumentationOption, SdkInstrumentations } from './types';
+
+/**
+ * Resolve the `instrumentations` option into the list handed to NodeSDK.
+ * Presets avoid constructing unused instrumentations, since construction
+ * alone patches their target modules.
+ */
+export function resolveInstrumentations(option: InstrumentationOption = 'all'): SdkInstrumentations {
+  if (Array.isArray(option)) return option;
+  switch (option) {
+    case 'none':
+      return [];
+    case 'http-only':
+      // Outbound provider calls go through either node:http or undici (fetch)
+      return [new HttpInstrumentation(), new UndiciInstrumentation()];
+    case 'all':
+      return [getNodeAutoInstrumentations()];
+    default:
+      return [getNodeAutoInstrumentations(option)];
+  }
+}
@@ -51,7 +51,7 @@ export class Eval2OtelMetrics {
 
   constructor(config: OtelConfig) {
     this.config = config;
-    this.meter = metrics.getMeter('eval2otel', config.serviceVersion);
+    this.meter = (config.meterProvider ?? metrics).getMeter('eval2otel', config.serviceVersion);
     
     this.initializeMetrics();
   }
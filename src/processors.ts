@@ -0,0 +1,78 @@
+import * as path from 'path';
+import { Span } from '@opentelemetry/api';
+import { ConversionReport, EvalProcessor, EvalResult, ProcessOptions } from './types';
+
+/**
+ * Run every `beforeConvert` hook in order. Each hook sees the output of the
+ * previous one; a split fans the remaining hooks out over every piece, and a
+ * veto removes the result from the pipeline.
+ */
+export function applyBeforeConvert(
+  processors: EvalProcessor[],
+  evalResult: EvalResult,
+  options?: ProcessOptions,
+): EvalResult[] {
+  let results = [evalResult];
+  for (const processor of processors) {
+    if (!processor.beforeConvert) continue;
+    results = results.flatMap((result) => {
+      const next = processor.beforeConvert!(result, options);
+      if (next === null) return [];
+      if (next === undefined) return [result];
+      return Array.isArray(next) ? next : [next];
+    });
+  }
+  return results;
+}
+
+/** Run `afterConvert` hooks in order against the populated primary span */
+export function applyAfterConvert(
+  processors: EvalProcessor[],
+  span: Span,
+  report: ConversionReport,
+  evalResult: EvalResult,
+): void {
+  processors.forEach(processor => processor.afterConvert?.(span, report, evalResult));
+}
+
+/**
+ * Run `beforeRecordMetrics` hooks in order. Returns the result to record
+ * metrics from, or undefined when a processor skipped metric recording.
+ */
+export function applyBeforeRecordMetrics(
+  processors: EvalProcessor[],
+  evalResult: EvalResult,
+  options?: ProcessOptions,
+): EvalResult | undefined {
+  let result = evalResult;
+  for (const processor of processors) {
+    const next = processor.beforeRecordMetrics?.(result, options);
+    if (next === false) return undefined;
+    if (next) result = next;
+  }
+  return result;
+}
+
+/**
+ * Load processors from a module path (resolved against the working directory).
+ * The module may export a processor or an array of processors, either as the
+ * default export or as `module.exports`.
+ */
+export function loadProcessorModule(modulePath: string): EvalProcessor[] {
+  // eslint-disable-next-line @typescript-eslint/no-require-imports
+  const loaded = require(path.resolve(modulePath)) as { default?: unknown };
+  const exported = loaded.default ?? loaded;
+  const processors = Array.isArray(exported) ? exported : [exported];
+  processors.forEach((processor) => {
+    if (!isProcessor(processor)) {
+      throw new Error(`Invalid processor module ${modulePath}: expected an object with beforeConvert, afterConvert or beforeRecordMetrics`);
+    }
+  });
+  return processors as EvalProcessor[];
+}
+
+function isProcessor(value: unknown): value is EvalProcessor {
+  if (!value || typeof value !== 'object') return false;
+  const candidate = value as Record<string, unknown>;
+  return ['beforeConvert', 'afterConvert', 'beforeRecordMetrics'].some(hook => typeof candidate[hook] === 'function');
+}
@@ -1,4 +1,5 @@
-import { EvalResult } from './types';
+import { createHash } from 'crypto';
+import { ContentPart, EvalResult } from './types';
 
 /**
  * Provider-specific utilities for converting AI system responses to eval2otel format
@@ -277,7 +278,7 @@ export function convertOpenAICompatibleToEval2Otel(
             type: call.type,
             function: {
               name: call.function.name,
-              arguments: JSON.parse(call.function.arguments) as Record<string, unknown>,
+              arguments: toolArguments(call.function.arguments),
             },
           })),
         },
@@ -339,6 +340,87 @@ export interface OpenAIChatResponse {
   };
 }
 
+/**
+ * Parse OpenAI-style tool-call arguments. Returns undefined when `raw` is not
+ * valid JSON, e.g. when a stream was cut off in the middle of a tool call.
+ */
+export function parseToolArguments(raw: string): Record<string, unknown> | undefined {
+  try {
+    return JSON.parse(raw) as Record<string, unknown>;
+  } catch {
+    return undefined;
+  }
+}
+
+/** Tool-call arguments, keeping incomplete JSON as `{ partial_json }` */
+function toolArguments(raw: string): Record<string, unknown> {
+  return parseToolArguments(raw) ?? { partial_json: raw };
+}
+
+/**
+ * Describe inline base64 data (or a `data:` URI) by mime type, size and hash;
+ * the bytes themselves are never kept. http(s) and other URIs are kept as-is.
+ */
+function describeBinary(
+  type: 'image' | 'audio' | 'file',
+  source: { data?: string; uri?: string; mimeType?: string; filename?: string },
+): ContentPart {
+  const { filename } = source;
+  let mimeType = source.mimeType;
+  let data = source.data;
+  let uri = source.uri;
+  // Some APIs accept either a data: URI or bare base64 in the same field
+  const dataUri = uri ? /^data:([^;,]*)(;base64)?,(.*)$/is.exec(uri) : null;
+  if (dataUri) {
+    mimeType = mimeType ?? (dataUri[1] || undefined);
+    data = dataUri[2] ? dataUri[3] : Buffer.from(decodePercentEncoded(dataUri[3])).toString('base64');
+    uri = undefined;
+  } else if (uri !== undefined && !/^[a-z][a-z0-9+.-]*:/i.test(uri)) {
+    data = uri;
+    uri = undefined;
+  }
+  if (data === undefined) return { type, mimeType, filename, uri };
+  const bytes = Buffer.from(data, 'base64');
+  return { type, mimeType, filename, uri, byteSize: bytes.length, sha256: createHash('sha256').update(bytes).digest('hex') };
+}
+
+/** Decode a non-base64 data: URI payload, keeping it as-is when it is malformed */
+function decodePercentEncoded(payload: string): string {
+  try {
+    return decodeURIComponent(payload);
+  } catch {
+    return payload;
+  }
+}
+
+/** OpenAI chat content parts as typed content parts (string content when all parts are text) */
+function openAIContentParts(content: Array<Record<string, any>>): string | ContentPart[] {
+  const parts = content.flatMap((p): ContentPart[] => {
+    switch (p?.type) {
+      case 'text':
+        return typeof p.text === 'string' ? [{ type: 'text', text: p.text }] : [];
+      case 'image_url': {
+        const url: unknown = typeof p.image_url === 'string' ? p.image_url : p.image_url?.url;
+        return [describeBinary('image', { uri: typeof url === 'string' ? url : undefined })];
+      }
+      case 'input_audio':
+        return [describeBinary('audio', {
+          data: p.input_audio?.data,
+          mimeType: p.input_audio?.format ? `audio/${p.input_audio.format}` : undefined,
+        })];
+      case 'file':
+        return [describeBinary('file', {
+          // file_data is bare base64 or a data: URI; either way only its size and hash are kept
+          uri: p.file?.file_data ?? (p.file?.file_id ? `file:${p.file.file_id}` : undefined),
+          filename: typeof p.file?.filename === 'string' ? p.file.filename : undefined,
+        })];
+      default:
+        return [];
+    }
+  });
+  return parts.every(p => p.type === 'text') ? parts.map(p => (p as { text: string }).text).join('\n') : parts;
+}
+
 export function convertOpenAIChatToEval2Otel(
   request: OpenAIChatRequest,
   response: OpenAIChatResponse,
@@ -348,11 +430,10 @@ export function convertOpenAIChatToEval2Otel(
 ): EvalResult {
   const evalId = options.evalId ?? `openai-${Date.now()}-${Math.random().toString(36).slice(2, 9)}`;
   const duration = (endTime - startTime) / 1000;
-  // Extract multimodal text-only content for conversation messages
+  // Map multimodal content to typed parts (metadata only for images, audio and files)
   const convMessages = request.messages?.map((m: any) => {
     if (Array.isArray(m.content)) {
-      const text = m.content.filter((p:any)=>p?.type==='text').map((p:any)=>p.text).filter(Boolean).join('\n');
-      return { role: m.role, content: text };
+      return { role: m.role, content: openAIContentParts(m.content) };
     }
     return m;
   });
@@ -386,7 +467,7 @@ export function convertOpenAIChatToEval2Otel(
         message: {
           role: c.message.role,
           content: c.message.content ?? '',
-          toolCalls: c.message.tool_calls?.map(tc => ({ id: tc.id, type: tc.type, function: { name: tc.function.name, arguments: JSON.parse(tc.function.arguments) } })),
+          toolCalls: c.message.tool_calls?.map(tc => ({ id: tc.id, type: tc.type, function: { name: tc.function.name, arguments: toolArguments(tc.function.arguments) } })),
         },
       })),
     },
@@ -409,6 +490,22 @@ export function convertOpenAIChatToEval2Otel(
   } as EvalResult;
 }
 
+/** Anthropic content blocks as typed content parts (string content when there are no images or documents) */
+function anthropicContentParts(content: Array<Record<string, any>>): string | ContentPart[] {
+  const parts = content.flatMap((p): ContentPart[] => {
+    if (p?.type !== 'image' && p?.type !== 'document') {
+      return typeof p?.text === 'string' && p.text ? [{ type: 'text', text: p.text }] : [];
+    }
+    const source = p.source ?? {};
+    return [describeBinary(p.type === 'image' ? 'image' : 'file', {
+      data: source.type === 'base64' ? source.data : undefined,
+      uri: source.type === 'url' ? source.url : undefined,
+      mimeType: source.media_type,
+    })];
+  });
+  return parts.every(p => p.type === 'text') ? parts.map(p => (p as { text: string }).text).join('\n') : parts;
+}
+
 /**
  * Anthropic Messages API conversion (simplified generic mapping)
  */
@@ -497,7 +594,7 @@ export function convertAnthropicToEval2Otel(
     },
     conversation: request.messages ? {
       id: options.conversationId ?? `conv-${evalId}`,
-      messages: (request.messages as any[]).map((m: any) => ({ role: m.role, content: Array.isArray(m.content) ? (m.content.map((p:any)=>p.text).filter(Boolean).join('\n')) : m.content }))
+      messages: (request.messages as any[]).map((m: any) => ({ role: m.role, content: Array.isArray(m.content) ? anthropicContentParts(m.content) : m.content }))
     } : undefined,
   } as EvalResult;
 }
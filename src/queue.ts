@@ -0,0 +1,122 @@
+import { QueueOptions, QueueOverflowPolicy } from './types';
+
+export interface QueueStats {
+  size: number;
+  inFlight: number;
+  processed: number;
+  dropped: number;
+}
+
+export interface QueuePushResult {
+  /** Resolves true once the item is buffered, false if it was dropped on arrival */
+  accepted: Promise<boolean>;
+  /** Settles when the item has been processed (rejects if processing failed or it was dropped) */
+  done: Promise<void>;
+}
+
+interface QueueEntry<T> {
+  item: T;
+  resolve: () => void;
+  reject: (error: unknown) => void;
+}
+
+/**
+ * Bounded in-memory work queue with configurable concurrency and overflow
+ * policy. Items are processed on a later event-loop turn so producers never
+ * run conversion work inline.
+ */
+export class BoundedQueue<T> {
+  private buffer: QueueEntry<T>[] = [];
+  private spaceWaiters: Array<() => void> = [];
+  private idleWaiters: Array<() => void> = [];
+  private inFlight = 0;
+  private processed = 0;
+  private dropped = 0;
+  private readonly maxSize: number;
+  private readonly concurrency: number;
+  private readonly overflow: QueueOverflowPolicy;
+
+  constructor(private worker: (item: T) => Promise<void> | void, options: QueueOptions = {}) {
+    this.maxSize = Math.max(1, options.maxSize ?? 1000);
+    this.concurrency = Math.max(1, options.concurrency ?? 1);
+    this.overflow = options.overflow ?? 'block';
+  }
+
+  push(item: T): QueuePushResult {
+    let resolve!: () => void;
+    let reject!: (error: unknown) => void;
+    const done = new Promise<void>((res, rej) => {
+      resolve = res;
+      reject = rej;
+    });
+    const accepted = this.admit({ item, resolve, reject });
+    return { accepted, done };
+  }
+
+  /** Resolves once the buffer is empty and no item is in flight */
+  onIdle(): Promise<void> {
+    if (this.isIdle()) return Promise.resolve();
+    return new Promise(resolve => this.idleWaiters.push(resolve));
+  }
+
+  stats(): QueueStats {
+    return {
+      size: this.buffer.length,
+      inFlight: this.inFlight,
+      processed: this.processed,
+      dropped: this.dropped,
+    };
+  }
+
+  private async admit(entry: QueueEntry<T>): Promise<boolean> {
+    while (this.buffer.length >= this.maxSize) {
+      if (this.overflow === 'drop-newest') {
+        this.drop(entry);
+        return false;
+      }
+      if (this.overflow === 'drop-oldest') {
+        this.drop(this.buffer.shift()!);
+        break;
+      }
+      await new Promise<void>(resolve => this.spaceWaiters.push(resolve));
+    }
+    this.buffer.push(entry);
+    this.pump();
+    return true;
+  }
+
+  private drop(entry: QueueEntry<T>): void {
+    this.dropped++;
+    entry.reject(new Error('Evaluation dropped: eval2otel queue is full'));
+  }
+
+  private pump(): void {
+    while (this.inFlight < this.concurrency && this.buffer.length > 0) {
+      const entry = this.buffer.shift()!;
+      this.inFlight++;
+      this.spaceWaiters.shift()?.();
+      void this.run(entry);
+    }
+  }
+
+  private async run(entry: QueueEntry<T>): Promise<void> {
+    try {
+      await new Promise(resolve => setImmediate(resolve));
+      await this.worker(entry.item);
+      entry.resolve();
+    } catch (error) {
+      entry.reject(error);
+    } finally {
+      this.inFlight--;
+      this.processed++;
+      this.pump();
+      if (this.isIdle()) {
+        this.idleWaiters.splice(0).forEach(resolve => resolve());
+      }
+    }
+  }
+
+  private isIdle(): boolean {
+    return this.buffer.length === 0 && this.inFlight === 0;
+  }
+}
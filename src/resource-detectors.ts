@@ -0,0 +1,185 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { ResourceDetectorName } from './types';
+
+type Env = Record<string, string | undefined>;
+type ResourceAttributes = Record<string, string>;
+
+export const RESOURCE_DETECTORS: readonly ResourceDetectorName[] = ['ci', 'git'];
+
+/** OTel VCS/CICD semantic convention keys, plus the eval2otel CI provider extension */
+export const VCS_ATTR = {
+  REPOSITORY_URL: 'vcs.repository.url.full',
+  REF_HEAD_REVISION: 'vcs.ref.head.revision',
+  REF_HEAD_NAME: 'vcs.ref.head.name',
+  CI_PROVIDER: 'evalops.ci.provider',
+  PIPELINE_NAME: 'cicd.pipeline.name',
+  PIPELINE_RUN_ID: 'cicd.pipeline.run.id',
+  PIPELINE_RUN_URL: 'cicd.pipeline.run.url.full',
+  PIPELINE_TASK_NAME: 'cicd.pipeline.task.name',
+  PIPELINE_TASK_RUN_ID: 'cicd.pipeline.task.run.id',
+} as const;
+
+/**
+ * Run the selected detectors. `git` only reads the local `.git` directory when
+ * `ci` is not selected or found no CI provider, since CI checkouts report the
+ * commit more reliably (e.g. the PR head rather than a merge commit).
+ */
+export function detectResourceAttributes(
+  detectors: ResourceDetectorName[],
+  env: Env = process.env,
+  cwd: string = process.cwd(),
+): ResourceAttributes {
+  const ci = detectors.includes('ci') ? detectCiAttributes(env) : {};
+  if (detectors.includes('git') && !ci[VCS_ATTR.CI_PROVIDER]) {
+    return { ...detectGitAttributes(cwd), ...ci };
+  }
+  return ci;
+}
+
+/** Repository, commit, branch and pipeline identifiers from GitHub Actions, GitLab CI, Buildkite or Jenkins */
+export function detectCiAttributes(env: Env = process.env): ResourceAttributes {
+  if (env.GITHUB_ACTIONS === 'true') {
+    const server = env.GITHUB_SERVER_URL ?? 'https://github.com';
+    const repoUrl = env.GITHUB_REPOSITORY ? `${server}/${env.GITHUB_REPOSITORY}` : undefined;
+    return compact({
+      [VCS_ATTR.CI_PROVIDER]: 'github_actions',
+      [VCS_ATTR.REPOSITORY_URL]: repoUrl,
+      [VCS_ATTR.REF_HEAD_REVISION]: env.GITHUB_SHA,
+      [VCS_ATTR.REF_HEAD_NAME]: firstNonEmpty(env.GITHUB_HEAD_REF, env.GITHUB_REF_NAME),
+      [VCS_ATTR.PIPELINE_NAME]: env.GITHUB_WORKFLOW,
+      [VCS_ATTR.PIPELINE_RUN_ID]: env.GITHUB_RUN_ID,
+      [VCS_ATTR.PIPELINE_RUN_URL]: repoUrl && env.GITHUB_RUN_ID ? `${repoUrl}/actions/runs/${env.GITHUB_RUN_ID}` : undefined,
+      [VCS_ATTR.PIPELINE_TASK_NAME]: env.GITHUB_JOB,
+    });
+  }
+  if (env.GITLAB_CI === 'true') {
+    return compact({
+      [VCS_ATTR.CI_PROVIDER]: 'gitlab_ci',
+      [VCS_ATTR.REPOSITORY_URL]: env.CI_PROJECT_URL,
+      [VCS_ATTR.REF_HEAD_REVISION]: env.CI_COMMIT_SHA,
+      [VCS_ATTR.REF_HEAD_NAME]: firstNonEmpty(env.CI_MERGE_REQUEST_SOURCE_BRANCH_NAME, env.CI_COMMIT_REF_NAME),
+      [VCS_ATTR.PIPELINE_NAME]: firstNonEmpty(env.CI_PIPELINE_NAME, env.CI_PROJECT_PATH),
+      [VCS_ATTR.PIPELINE_RUN_ID]: env.CI_PIPELINE_ID,
+      [VCS_ATTR.PIPELINE_RUN_URL]: env.CI_PIPELINE_URL,
+      [VCS_ATTR.PIPELINE_TASK_NAME]: env.CI_JOB_NAME,
+      [VCS_ATTR.PIPELINE_TASK_RUN_ID]: env.CI_JOB_ID,
+    });
+  }
+  if (env.BUILDKITE === 'true') {
+    return compact({
+      [VCS_ATTR.CI_PROVIDER]: 'buildkite',
+      [VCS_ATTR.REPOSITORY_URL]: env.BUILDKITE_REPO,
+      [VCS_ATTR.REF_HEAD_REVISION]: env.BUILDKITE_COMMIT,
+      [VCS_ATTR.REF_HEAD_NAME]: env.BUILDKITE_BRANCH,
+      [VCS_ATTR.PIPELINE_NAME]: env.BUILDKITE_PIPELINE_SLUG,
+      [VCS_ATTR.PIPELINE_RUN_ID]: env.BUILDKITE_BUILD_ID,
+      [VCS_ATTR.PIPELINE_RUN_URL]: env.BUILDKITE_BUILD_URL,
+      [VCS_ATTR.PIPELINE_TASK_NAME]: env.BUILDKITE_LABEL,
+      [VCS_ATTR.PIPELINE_TASK_RUN_ID]: env.BUILDKITE_JOB_ID,
+    });
+  }
+  if (env.JENKINS_URL) {
+    return compact({
+      [VCS_ATTR.CI_PROVIDER]: 'jenkins',
+      [VCS_ATTR.REPOSITORY_URL]: env.GIT_URL,
+      [VCS_ATTR.REF_HEAD_REVISION]: env.GIT_COMMIT,
+      [VCS_ATTR.REF_HEAD_NAME]: firstNonEmpty(env.CHANGE_BRANCH, env.GIT_BRANCH?.replace(/^origin\//, '')),
+      [VCS_ATTR.PIPELINE_NAME]: env.JOB_NAME,
+      [VCS_ATTR.PIPELINE_RUN_ID]: env.BUILD_NUMBER,
+      [VCS_ATTR.PIPELINE_RUN_URL]: env.BUILD_URL,
+      [VCS_ATTR.PIPELINE_TASK_NAME]: env.STAGE_NAME,
+    });
+  }
+  return {};
+}
+
+/**
+ * Commit, branch and `origin` URL read directly from the nearest `.git`
+ * directory (or worktree `.git` file) above `cwd`, without running git.
+ */
+export function detectGitAttributes(cwd: string = process.cwd()): ResourceAttributes {
+  const gitDir = findGitDir(cwd);
+  if (!gitDir) return {};
+  try {
+    const head = fs.readFileSync(path.join(gitDir, 'HEAD'), 'utf8').trim();
+    const commonDir = resolveCommonDir(gitDir);
+    const refMatch = /^ref:\s*(\S+)$/.exec(head);
+    const ref = refMatch?.[1];
+    return compact({
+      [VCS_ATTR.REPOSITORY_URL]: readOriginUrl(commonDir),
+      [VCS_ATTR.REF_HEAD_REVISION]: ref ? readRef(gitDir, commonDir, ref) : head,
+      [VCS_ATTR.REF_HEAD_NAME]: ref?.replace(/^refs\/heads\//, ''),
+    });
+  } catch {
+    return {};
+  }
+}
+
+function findGitDir(start: string): string | undefined {
+  let dir = path.resolve(start);
+  for (;;) {
+    const candidate = path.join(dir, '.git');
+    if (fs.existsSync(candidate)) {
+      if (fs.statSync(candidate).isDirectory()) return candidate;
+      // Worktrees and submodules use a `.git` file pointing at the real git dir
+      const pointer = /^gitdir:\s*(.+)$/m.exec(fs.readFileSync(candidate, 'utf8'));
+      return pointer ? path.resolve(dir, pointer[1].trim()) : undefined;
+    }
+    const parent = path.dirname(dir);
+    if (parent === dir) return undefined;
+    dir = parent;
+  }
+}
+
+function resolveCommonDir(gitDir: string): string {
+  const file = path.join(gitDir, 'commondir');
+  if (!fs.existsSync(file)) return gitDir;
+  return path.resolve(gitDir, fs.readFileSync(file, 'utf8').trim());
+}
+
+function readRef(gitDir: string, commonDir: string, ref: string): string | undefined {
+  for (const dir of [gitDir, commonDir]) {
+    const file = path.join(dir, ref);
+    if (fs.existsSync(file)) return fs.readFileSync(file, 'utf8').trim();
+  }
+  const packed = path.join(commonDir, 'packed-refs');
+  if (!fs.existsSync(packed)) return undefined;
+  const line = fs.readFileSync(packed, 'utf8').split('\n').find(entry => entry.endsWith(` ${ref}`));
+  return line?.split(' ')[0];
+}
+
+function readOriginUrl(commonDir: string): string | undefined {
+  const file = path.join(commonDir, 'config');
+  if (!fs.existsSync(file)) return undefined;
+  let inOrigin = false;
+  for (const raw of fs.readFileSync(file, 'utf8').split('\n')) {
+    const line = raw.trim();
+    if (line.startsWith('[')) {
+      inOrigin = /^\[remote\s+"origin"\]$/.test(line);
+      continue;
+    }
+    const match = inOrigin ? /^url\s*=\s*(.+)$/.exec(line) : null;
+    if (match) return match[1].trim();
+  }
+  return undefined;
+}
+
+/** CI systems often export unset variables as empty strings */
+function firstNonEmpty(...values: Array<string | undefined>): string | undefined {
+  return values.find(value => value !== undefined && value !== '');
+}
+
+/** Drop empty values and strip credentials from URLs (CI checkout URLs often embed tokens) */
+function compact(attributes: Record<string, string | undefined>): ResourceAttributes {
+  const result: ResourceAttributes = {};
+  Object.entries(attributes).forEach(([key, value]) => {
+    if (!value) return;
+    result[key] = key.endsWith('.url.full') ? stripCredentials(value) : value;
+  });
+  return result;
+}
+
+function stripCredentials(url: string): string {
+  return url.replace(/^([a-z][a-z0-9+.-]*:\/\/)[^@/]+@/i, '$1');
+}
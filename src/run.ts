@@ -0,0 +1,132 @@
+import { Span } from '@opentelemetry/api';
+import { ATTR } from './attributes';
+import { buildBatchConversionReport } from './contract';
+import { isNotableOutcome } from './sampling';
+import { BatchConversionReport, ConversionReport, EvalResult, ProcessOptions, RunOptions, RunSummary } from './types';
+
+type ProcessFn = (evalResult: EvalResult, options?: ProcessOptions) => ConversionReport[];
+
+/**
+ * An open eval run returned by `Eval2Otel.startRun`. Case spans processed
+ * through the handle are children of its `evalops.run` span; `end()` records
+ * the run aggregates on that span and closes it.
+ */
+export class RunHandle {
+  readonly runId: string;
+  private caseCount = 0;
+  private passCount = 0;
+  private failCount = 0;
+  private inputTokens = 0;
+  private outputTokens = 0;
+  private warningCount = 0;
+  private durations: number[] = [];
+  private ended?: RunSummary;
+
+  constructor(readonly span: Span, private options: RunOptions, private process: ProcessFn) {
+    this.runId = options.runId;
+  }
+
+  /**
+   * Process one case under the run span. Run and dataset ids fill in missing
+   * `provenance` fields so case spans carry them too.
+   */
+  processEvaluation(evalResult: EvalResult, options?: ProcessOptions): ConversionReport[] {
+    if (this.ended) {
+      throw new Error(`Run ${this.runId} has already ended`);
+    }
+    const result = this.withRunProvenance(evalResult);
+    let reports: ConversionReport[];
+    try {
+      reports = this.process(result, { ...options, parentSpan: this.span });
+    } catch (error) {
+      // No report reaches us when onError rethrows, so count the failure only
+      this.recordCase(result, false, 0);
+      throw error;
+    }
+    // Duplicates skipped by `dedupe` were already counted when first converted
+    const converted = reports.filter(report => !report.duplicate);
+    if (converted.length > 0) {
+      const passed = converted.every(report => report.success) && !isNotableOutcome(result);
+      this.recordCase(result, passed, converted.reduce((total, report) => total + report.warningCount, 0));
+    }
+    return reports;
+  }
+
+  processEvaluations(evalResults: EvalResult[], options?: ProcessOptions): BatchConversionReport {
+    const startedAt = Date.now();
+    const reports = evalResults.flatMap(result => this.processEvaluation(result, options));
+    return buildBatchConversionReport(reports, Date.now() - startedAt);
+  }
+
+  /** Aggregates so far; the run stays open */
+  summary(): RunSummary {
+    if (this.ended) return { ...this.ended };
+    const sorted = [...this.durations].sort((a, b) => a - b);
+    return {
+      runId: this.runId,
+      caseCount: this.caseCount,
+      passCount: this.passCount,
+      failCount: this.failCount,
+      inputTokens: this.inputTokens,
+      outputTokens: this.outputTokens,
+      totalTokens: this.inputTokens + this.outputTokens,
+      durationP50: percentile(sorted, 0.5),
+      durationP95: percentile(sorted, 0.95),
+      warningCount: this.warningCount,
+    };
+  }
+
+  /**
+   * Record the aggregates on the run span and end it. Later calls return the
+   * same summary without touching the span.
+   */
+  end(endTime?: number): RunSummary {
+    if (this.ended) return { ...this.ended };
+    const summary = this.summary();
+    this.span.setAttributes({
+      [ATTR.RUN_CASE_COUNT]: summary.caseCount,
+      [ATTR.RUN_PASS_COUNT]: summary.passCount,
+      [ATTR.RUN_FAIL_COUNT]: summary.failCount,
+      [ATTR.RUN_INPUT_TOKENS]: summary.inputTokens,
+      [ATTR.RUN_OUTPUT_TOKENS]: summary.outputTokens,
+      [ATTR.RUN_TOTAL_TOKENS]: summary.totalTokens,
+      [ATTR.RUN_WARNING_COUNT]: summary.warningCount,
+    });
+    if (summary.durationP50 !== undefined) this.span.setAttribute(ATTR.RUN_DURATION_P50, summary.durationP50);
+    if (summary.durationP95 !== undefined) this.span.setAttribute(ATTR.RUN_DURATION_P95, summary.durationP95);
+    this.span.end(endTime ?? Date.now());
+    this.ended = summary;
+    return { ...summary };
+  }
+
+  private withRunProvenance(evalResult: EvalResult): EvalResult {
+    const provenance = evalResult.provenance ?? {};
+    return {
+      ...evalResult,
+      provenance: {
+        ...provenance,
+        runId: provenance.runId ?? this.runId,
+        datasetId: provenance.datasetId ?? this.options.datasetId,
+        datasetVersion: provenance.datasetVersion ?? this.options.datasetVersion,
+      },
+    };
+  }
+
+  private recordCase(evalResult: EvalResult, passed: boolean, warningCount: number): void {
+    this.caseCount++;
+    if (passed) this.passCount++;
+    else this.failCount++;
+    this.inputTokens += evalResult.usage?.inputTokens ?? 0;
+    this.outputTokens += evalResult.usage?.outputTokens ?? 0;
+    this.warningCount += warningCount;
+    if (typeof evalResult.performance?.duration === 'number') {
+      this.durations.push(evalResult.performance.duration);
+    }
+  }
+}
+
+/** Nearest-rank percentile of an ascending list */
+function percentile(sorted: number[], p: number): number | undefined {
+  if (sorted.length === 0) return undefined;
+  return sorted[Math.max(0, Math.ceil(p * sorted.length) - 1)];
+}
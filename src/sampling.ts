@@ -0,0 +1,47 @@
+import { sha256 } from './contract';
+import { EvalResult, SpanSamplingConfig } from './types';
+
+export interface SpanSamplingDecision {
+  sampled: boolean;
+  /** Number of evaluations this span stands for (1 / passRate for sampled passes) */
+  weight: number;
+}
+
+/**
+ * Deterministically map an evaluation id to [0, 1) so retries and replays make
+ * the same decision. Uses SHA-256 so sequential ids spread evenly.
+ */
+export function hashToUnitInterval(id: string): number {
+  return parseInt(sha256(id).slice(0, 8), 16) / 4294967296;
+}
+
+/**
+ * Whether an evaluation is worth keeping regardless of sampling: it errored,
+ * carries warning/error-level conversion warnings (integrations report failed
+ * assertions and metrics this way), was safety-flagged, or had a failed agent step.
+ */
+export function isNotableOutcome(evalResult: EvalResult): boolean {
+  if (evalResult.error) return true;
+  if (evalResult.evidence?.warnings?.some(warning => warning.severity !== 'info')) return true;
+  if (evalResult.agent?.steps?.some(step => step.status === 'failed')) return true;
+  const providerAttrs = evalResult.provider?.attributes ?? {};
+  return Object.entries(providerAttrs).some(([key, value]) => {
+    if (key === 'gen_ai.safety.categories') return Array.isArray(value) && value.length > 0;
+    return key.startsWith('gen_ai.safety.flagged') && value === true;
+  });
+}
+
+/**
+ * Decide whether an evaluation gets a span. Notable outcomes are always kept
+ * with weight 1; passing evaluations are kept at `passRate` by id hash.
+ */
+export function decideSpanSampling(evalResult: EvalResult, config: SpanSamplingConfig): SpanSamplingDecision {
+  if (isNotableOutcome(evalResult) || config.alwaysKeep?.(evalResult)) {
+    return { sampled: true, weight: 1 };
+  }
+  const passRate = config.passRate;
+  if (passRate >= 1) return { sampled: true, weight: 1 };
+  if (passRate <= 0) return { sampled: false, weight: 0 };
+  const sampled = hashToUnitInterval(String(evalResult.id ?? '')) < passRate;
+  return { sampled, weight: sampled ? 1 / passRate : 0 };
+}
@@ -37,18 +37,33 @@ export const ATTRIBUTE_REGISTRY: AttributeSpec[] = [
   { key: 'gen_ai.server.time_per_output_token', source: 'otel-genai', signal: 'metric', stability: 'stable', description: 'Time per output token metric.' },
   { key: 'gen_ai.token.type', source: 'otel-genai', signal: 'metric', stability: 'stable', description: 'Token direction for token metrics.' },
   { key: 'gen_ai.conversation.id', source: 'otel-genai', signal: 'span', stability: 'experimental', description: 'Conversation id.' },
+  { key: ATTR.CONVERSATION_TURN_INDEX, source: 'eval2otel-extension', signal: 'span', stability: 'extension', description: 'Zero-based turn within the conversation.' },
   { key: ATTR.MESSAGE_CONTENT, source: 'otel-genai', signal: 'event', stability: 'experimental', description: 'Captured message content.' },
   { key: ATTR.MESSAGE_CONTENT_JSON, source: 'eval2otel-extension', signal: 'event', stability: 'extension', description: 'Captured structured message content.' },
   { key: ATTR.MESSAGE_CONTENT_TYPE, source: 'eval2otel-extension', signal: 'event', stability: 'extension', description: 'Message content encoding.' },
   { key: ATTR.MESSAGE_ROLE, source: 'otel-genai', signal: 'event', stability: 'experimental', description: 'Message role.' },
   { key: ATTR.MESSAGE_INDEX, source: 'eval2otel-extension', signal: 'event', stability: 'extension', description: 'Message index.' },
+  { key: ATTR.MESSAGE_PART_COUNT, source: 'eval2otel-extension', signal: 'event', stability: 'extension', description: 'Number of multimodal content parts in the message.' },
+  { key: ATTR.MESSAGE_PART_INDEX, source: 'eval2otel-extension', signal: 'event', stability: 'extension', description: 'Content part index within the message.' },
+  { key: ATTR.MESSAGE_PART_TYPE, source: 'eval2otel-extension', signal: 'event', stability: 'extension', description: 'Content part type (image, audio, file).' },
+  { key: ATTR.MESSAGE_PART_MIME_TYPE, source: 'eval2otel-extension', signal: 'event', stability: 'extension', description: 'Content part MIME type.' },
+  { key: ATTR.MESSAGE_PART_BYTE_SIZE, source: 'eval2otel-extension', signal: 'event', stability: 'extension', description: 'Content part size in bytes.' },
+  { key: ATTR.MESSAGE_PART_WIDTH, source: 'eval2otel-extension', signal: 'event', stability: 'extension', description: 'Image width in pixels.' },
+  { key: ATTR.MESSAGE_PART_HEIGHT, source: 'eval2otel-extension', signal: 'event', stability: 'extension', description: 'Image height in pixels.' },
+  { key: ATTR.MESSAGE_PART_FILENAME, source: 'eval2otel-extension', signal: 'event', stability: 'extension', description: 'Captured content part file name.' },
+  { key: ATTR.MESSAGE_PART_SHA256, source: 'eval2otel-extension', signal: 'event', stability: 'extension', description: 'Hash of the content part bytes.' },
+  { key: ATTR.MESSAGE_PART_URI, source: 'eval2otel-extension', signal: 'event', stability: 'extension', description: 'Captured content part URI (never a data: URI).' },
   { key: ATTR.MESSAGE_CONTENT_TRUNCATED, source: 'eval2otel-extension', signal: 'event', stability: 'extension', description: 'Content truncation marker.' },
   { key: ATTR.RESPONSE_CHOICE_INDEX, source: 'eval2otel-extension', signal: 'event', stability: 'extension', description: 'Choice index.' },
   { key: ATTR.RESPONSE_FINISH_REASON, source: 'otel-genai', signal: 'event', stability: 'experimental', description: 'Choice finish reason.' },
   { key: ATTR.TOOL_NAME, source: 'otel-genai', signal: 'all', stability: 'stable', description: 'Tool/function name.' },
   { key: 'gen_ai.tool.description', source: 'otel-genai', signal: 'span', stability: 'stable', description: 'Tool/function description.' },
-  { key: ATTR.TOOL_CALL_ID, source: 'otel-genai', signal: 'event', stability: 'experimental', description: 'Tool call id.' },
-  { key: ATTR.TOOL_ARGUMENTS, source: 'eval2otel-extension', signal: 'event', stability: 'extension', description: 'Captured tool arguments.' },
+  { key: ATTR.TOOL_CALL_ID, source: 'otel-genai', signal: 'all', stability: 'experimental', description: 'Tool call id.' },
+  { key: ATTR.TOOL_ARGUMENTS, source: 'eval2otel-extension', signal: 'all', stability: 'extension', description: 'Captured tool arguments.' },
+  { key: ATTR.INPUT_MESSAGES, source: 'otel-genai', signal: 'span', stability: 'experimental', description: 'Captured chat history sent to the model, as JSON.' },
+  { key: ATTR.OUTPUT_MESSAGES, source: 'otel-genai', signal: 'span', stability: 'experimental', description: 'Captured model output messages, as JSON.' },
+  { key: ATTR.SYSTEM_INSTRUCTIONS, source: 'otel-genai', signal: 'span', stability: 'experimental', description: 'Captured system instructions, as JSON.' },
+  { key: ATTR.TOOL_CALL_RESULT, source: 'otel-genai', signal: 'span', stability: 'experimental', description: 'Captured tool call result.' },
   { key: ATTR.DATA_SOURCE_ID, source: 'otel-genai', signal: 'span', stability: 'experimental', description: 'RAG data source id.' },
   { key: 'gen_ai.rag.retrieval_method', source: 'eval2otel-extension', signal: 'all', stability: 'extension', description: 'Retrieval strategy.' },
   { key: 'gen_ai.rag.documents_retrieved', source: 'eval2otel-extension', signal: 'all', stability: 'extension', description: 'Number of retrieved documents.' },
@@ -87,9 +102,11 @@ export const ATTRIBUTE_REGISTRY: AttributeSpec[] = [
   { key: 'gen_ai.agent.step_duration', source: 'eval2otel-extension', signal: 'metric', stability: 'extension', description: 'Agent step duration metric.' },
   { key: 'gen_ai.agent.step.name', source: 'eval2otel-extension', signal: 'metric', stability: 'extension', description: 'Agent step metric name.' },
   { key: 'gen_ai.agent.step.status', source: 'eval2otel-extension', signal: 'metric', stability: 'extension', description: 'Agent step metric status.' },
-  { key: 'gen_ai.agent.step.index', source: 'eval2otel-extension', signal: 'event', stability: 'extension', description: 'Agent step index.' },
-  { key: 'gen_ai.agent.step.type', source: 'eval2otel-extension', signal: 'event', stability: 'extension', description: 'Agent step type.' },
-  { key: 'gen_ai.agent.step.duration', source: 'eval2otel-extension', signal: 'event', stability: 'extension', description: 'Agent step duration.' },
+  { key: 'gen_ai.agent.step.index', source: 'eval2otel-extension', signal: 'all', stability: 'extension', description: 'Agent step index.' },
+  { key: 'gen_ai.agent.step.type', source: 'eval2otel-extension', signal: 'all', stability: 'extension', description: 'Agent step type.' },
+  { key: 'gen_ai.agent.step.duration', source: 'eval2otel-extension', signal: 'all', stability: 'extension', description: 'Agent step duration.' },
+  { key: 'gen_ai.agent.step.id', source: 'eval2otel-extension', signal: 'all', stability: 'extension', description: 'Agent step id.' },
+  { key: 'gen_ai.agent.step.parent', source: 'eval2otel-extension', signal: 'all', stability: 'extension', description: 'Id or name of the parent agent step.' },
   { key: 'gen_ai.agent.step.error', source: 'eval2otel-extension', signal: 'event', stability: 'extension', description: 'Agent step error.' },
   { key: 'gen_ai.workflow.id', source: 'eval2otel-extension', signal: 'span', stability: 'extension', description: 'Workflow id.' },
   { key: 'gen_ai.workflow.name', source: 'eval2otel-extension', signal: 'span', stability: 'extension', description: 'Workflow name.' },
@@ -0,0 +1,119 @@
+import { QueueStats } from './queue';
+import { ShutdownHooksConfig } from './types';
+
+/** What happened to queued evaluations during a hook-triggered shutdown */
+export interface ShutdownFlushResult {
+  reason: string;
+  /** Queued evaluations processed while flushing */
+  flushed: number;
+  /** Queued evaluations dropped by the queue or left behind at the deadline */
+  dropped: number;
+  timedOut: boolean;
+}
+
+export interface ShutdownTarget {
+  getQueueStats(): QueueStats;
+  flush(): Promise<void>;
+  shutdown(): Promise<void>;
+}
+
+/** The parts of `process` the hooks use, injectable for tests */
+export type ShutdownProcess = Pick<NodeJS.Process, 'on' | 'removeListener' | 'kill' | 'exit' | 'pid'>;
+
+const DEFAULT_TIMEOUT_MS = 5000;
+const DEFAULT_SIGNALS: NodeJS.Signals[] = ['SIGINT', 'SIGTERM'];
+
+/**
+ * Flush `target` (draining its queue and force-flushing every provider, which
+ * `shutdown` alone skips for providers the SDK does not own), then shut it
+ * down, giving up after `timeoutMs`. Never rejects: errors are logged and counted as a
+ * shutdown that did not finish.
+ */
+export async function flushForShutdown(target: ShutdownTarget, timeoutMs: number, reason: string): Promise<ShutdownFlushResult> {
+  const before = target.getQueueStats();
+  let timer: NodeJS.Timeout | undefined;
+  const deadline = new Promise<boolean>((resolve) => {
+    timer = setTimeout(() => resolve(true), timeoutMs);
+  });
+  let timedOut: boolean;
+  try {
+    const done = target.flush().then(() => target.shutdown()).then(() => false);
+    timedOut = await Promise.race([done, deadline]);
+  } catch (error) {
+    console.error('Error shutting down eval2otel:', error);
+    timedOut = false;
+  } finally {
+    clearTimeout(timer);
+  }
+  const after = target.getQueueStats();
+  const leftBehind = timedOut ? after.size + after.inFlight : 0;
+  return {
+    reason,
+    flushed: after.processed - before.processed,
+    dropped: after.dropped - before.dropped + leftBehind,
+    timedOut,
+  };
+}
+
+/**
+ * Flush `target` on SIGINT/SIGTERM (or the configured signals), `beforeExit`
+ * and, unless disabled, uncaught exceptions, then let the process exit as it
+ * would have: signals are re-raised, `beforeExit` keeps `process.exitCode`,
+ * and uncaught exceptions exit with code 1. Returns a function that removes
+ * the handlers.
+ */
+export function installShutdownHooks(
+  target: ShutdownTarget,
+  config: ShutdownHooksConfig = {},
+  proc: ShutdownProcess = process,
+): () => void {
+  const timeoutMs = config.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  const signals = config.signals ?? DEFAULT_SIGNALS;
+  let flushing: Promise<ShutdownFlushResult> | undefined;
+
+  const flushOnce = (reason: string) => {
+    flushing ??= flushForShutdown(target, timeoutMs, reason).then((result) => {
+      logShutdownResult(result, timeoutMs);
+      return result;
+    });
+    return flushing;
+  };
+
+  const onSignal = (signal: NodeJS.Signals) => {
+    void flushOnce(signal).then(() => {
+      uninstall();
+      proc.kill(proc.pid, signal);
+    });
+  };
+  // Flushing schedules more work, so beforeExit fires again once it settles; that pass is a no-op
+  const onBeforeExit = () => {
+    if (!flushing) void flushOnce('beforeExit');
+  };
+  const onUncaughtException = (error: Error) => {
+    console.error(error);
+    void flushOnce('uncaughtException').then(() => proc.exit(1));
+  };
+
+  signals.forEach(signal => proc.on(signal, onSignal));
+  proc.on('beforeExit', onBeforeExit);
+  if (config.uncaughtException !== false) proc.on('uncaughtException', onUncaughtException);
+
+  let installed = true;
+  const uninstall = () => {
+    if (!installed) return;
+    installed = false;
+    signals.forEach(signal => proc.removeListener(signal, onSignal));
+    proc.removeListener('beforeExit', onBeforeExit);
+    proc.removeListener('uncaughtException', onUncaughtException);
+  };
+  return uninstall;
+}
+
+function logShutdownResult(result: ShutdownFlushResult, timeoutMs: number): void {
+  const counts = `${result.flushed} queued evaluations flushed, ${result.dropped} dropped`;
+  if (result.timedOut) {
+    console.error(`eval2otel: shutdown on ${result.reason} exceeded the ${timeoutMs}ms deadline (${counts})`);
+  } else {
+    console.log(`eval2otel: flushed telemetry on ${result.reason} (${counts})`);
+  }
+}
@@ -0,0 +1,327 @@
+import {
+  AnthropicRequest,
+  AnthropicResponse,
+  convertAnthropicToEval2Otel,
+  convertOllamaToEval2Otel,
+  convertOpenAIChatToEval2Otel,
+  OllamaConversionOptions,
+  OllamaRequest,
+  OllamaResponse,
+  OpenAIChatRequest,
+  OpenAIChatResponse,
+  parseToolArguments,
+} from './providers';
+import { EvalResult } from './types';
+
+/**
+ * One streamed chunk and when it arrived (epoch milliseconds). `chunk` is the
+ * parsed payload or the raw SSE/NDJSON line (`data: ...` prefixes, `event:`
+ * lines, blank lines and `[DONE]` are handled).
+ */
+export interface TimestampedChunk<T> {
+  receivedAt: number;
+  chunk: T | string;
+}
+
+export interface StreamReassemblyOptions {
+  evalId?: string;
+  conversationId?: string;
+  /** When the stream finished (default: the last chunk's `receivedAt`) */
+  endTime?: number;
+}
+
+/** An OpenAI Chat Completions `chat.completion.chunk` */
+export interface OpenAIChatStreamChunk {
+  id: string;
+  object?: string;
+  created?: number;
+  model: string;
+  system_fingerprint?: string;
+  choices: Array<{
+    index: number;
+    delta: {
+      role?: string;
+      content?: string | null;
+      tool_calls?: Array<{
+        index: number;
+        id?: string;
+        type?: string;
+        function?: { name?: string; arguments?: string };
+      }>;
+    };
+    logprobs?: unknown;
+    finish_reason?: string | null;
+  }>;
+  /** Sent on the final chunk when `stream_options.include_usage` is set */
+  usage?: OpenAIChatResponse['usage'] | null;
+}
+
+/** An Anthropic Messages streaming event */
+export type AnthropicStreamEvent =
+  | { type: 'message_start'; message: { id: string; model: string; usage?: { input_tokens?: number; output_tokens?: number } } }
+  | { type: 'content_block_start'; index: number; content_block: { type: string; text?: string; name?: string; input?: Record<string, unknown> } }
+  | { type: 'content_block_delta'; index: number; delta: { type: string; text?: string; partial_json?: string } }
+  | { type: 'content_block_stop'; index: number }
+  | { type: 'message_delta'; delta: { stop_reason?: string | null }; usage?: { output_tokens?: number } }
+  | { type: 'message_stop' }
+  | { type: 'ping' }
+  | { type: 'error'; error: { type: string; message: string } };
+
+/** One Ollama `/api/chat` NDJSON line; the last one has `done: true` and the usage counters */
+export type OllamaStreamChunk = Partial<OllamaResponse> & { model: string; done: boolean };
+
+/**
+ * Rebuild an OpenAI chat completion from SSE deltas (content and tool-call
+ * argument fragments, per choice) and convert it. Tool arguments that are not
+ * valid JSON become an `IncompleteToolInput` error.
+ */
+export function reassembleOpenAIChatStream(
+  request: OpenAIChatRequest,
+  chunks: Array<TimestampedChunk<OpenAIChatStreamChunk>>,
+  startTime: number,
+  options: StreamReassemblyOptions = {},
+): EvalResult {
+  const timing = new StreamTiming();
+  const choices = new Map<number, OpenAIChatResponse['choices'][number] & { toolCallsByIndex: Map<number, { id: string; type: string; function: { name: string; arguments: string } }> }>();
+  let base: OpenAIChatStreamChunk | undefined;
+  let usage: OpenAIChatResponse['usage'];
+
+  parseChunks(chunks).forEach(({ receivedAt, payload }) => {
+    base ??= payload;
+    if (payload.usage) usage = payload.usage;
+    (payload.choices ?? []).forEach((delta) => {
+      let choice = choices.get(delta.index);
+      if (!choice) {
+        choice = { index: delta.index, message: { role: 'assistant', content: '' }, finish_reason: 'stop', toolCallsByIndex: new Map() };
+        choices.set(delta.index, choice);
+      }
+      if (delta.delta.role) choice.message.role = delta.delta.role;
+      if (delta.delta.content) {
+        choice.message.content = (choice.message.content ?? '') + delta.delta.content;
+        timing.output(receivedAt);
+      }
+      delta.delta.tool_calls?.forEach((fragment) => {
+        const call = choice.toolCallsByIndex.get(fragment.index)
+          ?? { id: '', type: 'function', function: { name: '', arguments: '' } };
+        if (fragment.id) call.id = fragment.id;
+        if (fragment.type) call.type = fragment.type;
+        if (fragment.function?.name) call.function.name += fragment.function.name;
+        if (fragment.function?.arguments) call.function.arguments += fragment.function.arguments;
+        choice.toolCallsByIndex.set(fragment.index, call);
+        timing.output(receivedAt);
+      });
+      if (delta.finish_reason) choice.finish_reason = delta.finish_reason;
+      if (delta.logprobs) choice.logprobs = delta.logprobs;
+    });
+  });
+  if (!base) throw new Error('Cannot reassemble an empty OpenAI chat stream');
+
+  const response: OpenAIChatResponse = {
+    id: base.id,
+    object: 'chat.completion',
+    created: base.created ?? Math.floor(startTime / 1000),
+    model: base.model,
+    system_fingerprint: base.system_fingerprint,
+    choices: [...choices.values()].sort((a, b) => a.index - b.index).map(({ toolCallsByIndex, ...choice }) => ({
+      ...choice,
+      message: {
+        ...choice.message,
+        tool_calls: toolCallsByIndex.size > 0
+          ? [...toolCallsByIndex.entries()].sort(([a], [b]) => a - b).map(([, call]) => call)
+          : undefined,
+      },
+    })),
+    usage,
+  };
+  const endTime = options.endTime ?? timing.lastChunkAt(chunks, startTime);
+  const evalResult = convertOpenAIChatToEval2Otel(request, response, startTime, endTime, options);
+  evalResult.performance = timing.performance(startTime, endTime, usage?.completion_tokens);
+  // A stream cut off mid tool call leaves truncated arguments, kept as { partial_json }
+  const incomplete = response.choices.flatMap(choice => choice.message.tool_calls ?? [])
+    .find(call => parseToolArguments(call.function.arguments) === undefined);
+  if (incomplete) {
+    evalResult.error ??= { type: 'IncompleteToolInput', message: `Tool arguments for ${incomplete.function.name || 'tool call'} were not valid JSON` };
+  }
+  return evalResult;
+}
+
+/**
+ * Rebuild an Anthropic message from `message_start`, `content_block_*` and
+ * `message_delta` events and convert it. An `error` event becomes
+ * `EvalResult.error`.
+ */
+export function reassembleAnthropicStream(
+  request: AnthropicRequest,
+  events: Array<TimestampedChunk<AnthropicStreamEvent>>,
+  startTime: number,
+  options: StreamReassemblyOptions = {},
+): EvalResult {
+  const timing = new StreamTiming();
+  const blocks = new Map<number, { type: string; text: string; name?: string; json: string; input?: Record<string, unknown> }>();
+  let message: { id: string; model: string } | undefined;
+  let inputTokens: number | undefined;
+  let outputTokens: number | undefined;
+  let stopReason: string | undefined;
+  let error: EvalResult['error'];
+
+  parseChunks(events).forEach(({ receivedAt, payload: event }) => {
+    switch (event.type) {
+      case 'message_start':
+        message = { id: event.message.id, model: event.message.model };
+        inputTokens = event.message.usage?.input_tokens;
+        outputTokens = event.message.usage?.output_tokens;
+        break;
+      case 'content_block_start':
+        blocks.set(event.index, {
+          type: event.content_block.type,
+          text: event.content_block.text ?? '',
+          name: event.content_block.name,
+          json: '',
+          input: event.content_block.input,
+        });
+        if (event.content_block.text) timing.output(receivedAt);
+        break;
+      case 'content_block_delta': {
+        const block = blocks.get(event.index);
+        if (!block) break;
+        if (event.delta.text) block.text += event.delta.text;
+        if (event.delta.partial_json) block.json += event.delta.partial_json;
+        if (event.delta.text || event.delta.partial_json) timing.output(receivedAt);
+        break;
+      }
+      case 'message_delta':
+        if (event.delta.stop_reason) stopReason = event.delta.stop_reason;
+        // Anthropic reports cumulative output tokens on message_delta
+        if (event.usage?.output_tokens !== undefined) outputTokens = event.usage.output_tokens;
+        break;
+      case 'error':
+        error = { type: event.error.type, message: event.error.message };
+        break;
+      default:
+        break;
+    }
+  });
+  if (!message) throw new Error('Cannot reassemble an Anthropic stream without a message_start event');
+
+  const content = [...blocks.entries()].sort(([a], [b]) => a - b).map(([, block]) => {
+    if (block.type !== 'tool_use') return { type: 'text' as const, text: block.text };
+    let input = block.input ?? {};
+    if (block.json) {
+      try {
+        input = JSON.parse(block.json) as Record<string, unknown>;
+      } catch {
+        // A stream cut off mid tool_use leaves truncated partial_json; keep what arrived
+        if (Object.keys(input).length === 0) input = { partial_json: block.json };
+        error ??= { type: 'IncompleteToolInput', message: `Tool input for ${block.name ?? 'tool_use'} was not valid JSON` };
+      }
+    }
+    return { type: 'tool_use' as const, name: block.name ?? '', input };
+  });
+  const response: AnthropicResponse = {
+    id: message.id,
+    model: message.model,
+    stop_reason: stopReason,
+    content,
+    usage: {
+      input_tokens: inputTokens,
+      output_tokens: outputTokens,
+      total_tokens: inputTokens !== undefined || outputTokens !== undefined ? (inputTokens ?? 0) + (outputTokens ?? 0) : undefined,
+    },
+  };
+  const endTime = options.endTime ?? timing.lastChunkAt(events, startTime);
+  const evalResult = convertAnthropicToEval2Otel(request, response, startTime, endTime, options);
+  evalResult.performance = timing.performance(startTime, endTime, outputTokens);
+  if (error) evalResult.error = error;
+  return evalResult;
+}
+
+/**
+ * Rebuild an Ollama chat response from NDJSON lines and convert it. Timing
+ * comes from arrival times rather than Ollama's server-side durations.
+ */
+export function reassembleOllamaStream(
+  request: OllamaRequest,
+  chunks: Array<TimestampedChunk<OllamaStreamChunk>>,
+  startTime: number,
+  options: OllamaConversionOptions & StreamReassemblyOptions = {},
+): EvalResult {
+  const timing = new StreamTiming();
+  let final: OllamaStreamChunk | undefined;
+  let role = 'assistant';
+  let content = '';
+  const toolCalls: NonNullable<OllamaResponse['message']['tool_calls']> = [];
+
+  parseChunks(chunks).forEach(({ receivedAt, payload }) => {
+    final = payload;
+    if (payload.message?.role) role = payload.message.role;
+    if (payload.message?.content) {
+      content += payload.message.content;
+      timing.output(receivedAt);
+    }
+    if (payload.message?.tool_calls?.length) {
+      toolCalls.push(...payload.message.tool_calls);
+      timing.output(receivedAt);
+    }
+  });
+  if (!final) throw new Error('Cannot reassemble an empty Ollama stream');
+
+  const response: OllamaResponse = {
+    ...final,
+    model: final.model,
+    created_at: final.created_at ?? new Date(startTime).toISOString(),
+    done: final.done,
+    message: { role, content, tool_calls: toolCalls.length > 0 ? toolCalls : undefined },
+  };
+  const endTime = options.endTime ?? timing.lastChunkAt(chunks, startTime);
+  const evalResult = convertOllamaToEval2Otel(request, response, startTime, options);
+  evalResult.performance = timing.performance(startTime, endTime, final.eval_count);
+  return evalResult;
+}
+
+/** Parse a raw SSE or NDJSON line; undefined for keep-alives, `event:` lines and `[DONE]` */
+export function parseStreamLine<T>(line: string): T | undefined {
+  const trimmed = line.trim();
+  if (!trimmed || trimmed.startsWith('event:') || trimmed.startsWith(':')) return undefined;
+  const data = trimmed.startsWith('data:') ? trimmed.slice(5).trim() : trimmed;
+  if (!data || data === '[DONE]') return undefined;
+  return JSON.parse(data) as T;
+}
+
+function parseChunks<T>(chunks: Array<TimestampedChunk<T>>): Array<{ receivedAt: number; payload: T }> {
+  return chunks.flatMap(({ receivedAt, chunk }) => {
+    const payload = typeof chunk === 'string' ? parseStreamLine<T>(chunk) : chunk;
+    return payload === undefined ? [] : [{ receivedAt, payload }];
+  });
+}
+
+/** Tracks when output-bearing chunks arrived */
+class StreamTiming {
+  private first?: number;
+  private last?: number;
+  private count = 0;
+
+  output(receivedAt: number): void {
+    this.first ??= receivedAt;
+    this.last = receivedAt;
+    this.count++;
+  }
+
+  lastChunkAt(chunks: Array<TimestampedChunk<unknown>>, startTime: number): number {
+    return chunks.reduce((latest, { receivedAt }) => Math.max(latest, receivedAt), startTime);
+  }
+
+  /**
+   * Duration, time to first output chunk, and time per output token after the
+   * first. Without a token count each output chunk is taken as one token.
+   */
+  performance(startTime: number, endTime: number, outputTokens?: number): EvalResult['performance'] {
+    const performance: EvalResult['performance'] = { duration: (endTime - startTime) / 1000 };
+    if (this.first === undefined || this.last === undefined) return performance;
+    const ttft = (this.first - startTime) / 1000;
+    if (ttft > 0) performance.timeToFirstToken = ttft;
+    const tokens = outputTokens ?? this.count;
+    const perToken = tokens > 1 ? (this.last - this.first) / 1000 / (tokens - 1) : 0;
+    if (perToken > 0) performance.timePerOutputToken = perToken;
+    return performance;
+  }
+}
@@ -0,0 +1,188 @@
+/*
+ * In-memory test harness, published as `eval2otel/testing`.
+ *
+ *   const harness = createTestEval2Otel({ captureContent: true });
+ *   harness.eval2otel.processEvaluation(result);
+ *   harness.expectSpan(result.id).toHaveAttribute('gen_ai.request.model', 'gpt-4o');
+ *   assertContract(harness.getSpan(result.id)!);
+ */
+import { Attributes, AttributeValue, SpanStatusCode } from '@opentelemetry/api';
+import { logs as sdkLogs, metrics as sdkMetrics, tracing } from '@opentelemetry/sdk-node';
+import { ATTR } from './attributes';
+import { EVAL2OTEL_CONTRACT_VERSION, EVAL2OTEL_REQUIRED_SPAN_ATTRIBUTES } from './contract';
+import { DeterministicIdGenerator } from './ids';
+import { Eval2Otel } from './index';
+import { OtelConfig } from './types';
+
+export interface HistogramPoint {
+  attributes: Attributes;
+  count: number;
+  sum: number;
+  min?: number;
+  max?: number;
+}
+
+/** Chainable assertions over one finished span; failures throw plain Errors */
+export class SpanAssertion {
+  constructor(readonly span: tracing.ReadableSpan) {}
+
+  toHaveAttribute(key: string, value?: AttributeValue): this {
+    if (!(key in this.span.attributes)) {
+      throw new Error(`Expected span "${this.span.name}" to have attribute ${key}`);
+    }
+    const actual = this.span.attributes[key];
+    if (value !== undefined && JSON.stringify(actual) !== JSON.stringify(value)) {
+      throw new Error(`Expected span attribute ${key} to be ${JSON.stringify(value)}, got ${JSON.stringify(actual)}`);
+    }
+    return this;
+  }
+
+  toNotHaveAttribute(key: string): this {
+    if (key in this.span.attributes) {
+      throw new Error(`Expected span "${this.span.name}" not to have attribute ${key}`);
+    }
+    return this;
+  }
+
+  toHaveEvent(name: string, attributes?: Attributes): this {
+    const events = this.span.events.filter(event => event.name === name);
+    if (events.length === 0) {
+      throw new Error(`Expected span "${this.span.name}" to have event ${name}`);
+    }
+    if (attributes && !events.some(event => Object.entries(attributes).every(
+      ([key, value]) => JSON.stringify(event.attributes?.[key]) === JSON.stringify(value),
+    ))) {
+      throw new Error(`Expected an event ${name} with attributes ${JSON.stringify(attributes)}`);
+    }
+    return this;
+  }
+
+  toHaveName(name: string): this {
+    if (this.span.name !== name) {
+      throw new Error(`Expected span name ${name}, got ${this.span.name}`);
+    }
+    return this;
+  }
+
+  toHaveStatus(code: SpanStatusCode): this {
+    if (this.span.status.code !== code) {
+      throw new Error(`Expected span status ${SpanStatusCode[code]}, got ${SpanStatusCode[this.span.status.code]}`);
+    }
+    return this;
+  }
+
+  toSatisfyContract(): this {
+    assertContract(this.span);
+    return this;
+  }
+}
+
+/**
+ * Check that a span carries every attribute the eval2otel.v1 contract requires.
+ * Throws an Error listing all missing attributes.
+ */
+export function assertContract(span: tracing.ReadableSpan): void {
+  const missing = EVAL2OTEL_REQUIRED_SPAN_ATTRIBUTES.filter(key => span.attributes[key] === undefined);
+  if (missing.length > 0) {
+    throw new Error(`Span "${span.name}" violates ${EVAL2OTEL_CONTRACT_VERSION}: missing ${missing.join(', ')}`);
+  }
+}
+
+/** A metric reader that only exports when collected explicitly */
+class CollectingMetricReader extends sdkMetrics.MetricReader {
+  protected async onForceFlush(): Promise<void> {}
+  protected async onShutdown(): Promise<void> {}
+}
+
+/**
+ * An `Eval2Otel` instance wired to in-memory span, metric and log pipelines, plus
+ * helpers to inspect what it emitted. Nothing is registered globally.
+ */
+export class Eval2OtelTestHarness {
+  readonly eval2otel: Eval2Otel;
+  readonly spanExporter = new tracing.InMemorySpanExporter();
+  readonly tracerProvider: tracing.BasicTracerProvider;
+  readonly meterProvider: sdkMetrics.MeterProvider;
+  readonly logExporter = new sdkLogs.InMemoryLogRecordExporter();
+  readonly loggerProvider: sdkLogs.LoggerProvider;
+  /** Installed in `tracerProvider`; used when the config enables `deterministicIds` */
+  readonly idGenerator = new DeterministicIdGenerator();
+  private metricReader = new CollectingMetricReader();
+
+  constructor(config: Partial<OtelConfig> = {}) {
+    this.tracerProvider = new tracing.BasicTracerProvider({
+      idGenerator: this.idGenerator,
+      spanProcessors: [new tracing.SimpleSpanProcessor(this.spanExporter)],
+    });
+    this.meterProvider = new sdkMetrics.MeterProvider({ readers: [this.metricReader] });
+    this.loggerProvider = new sdkLogs.LoggerProvider({
+      processors: [new sdkLogs.SimpleLogRecordProcessor(this.logExporter)],
+    });
+    this.eval2otel = new Eval2Otel({
+      serviceName: 'eval2otel-test',
+      useSdk: false,
+      ...config,
+      deterministicIds: config.deterministicIds && { ...config.deterministicIds, idGenerator: this.idGenerator },
+      tracerProvider: this.tracerProvider,
+      meterProvider: this.meterProvider,
+      loggerProvider: this.loggerProvider,
+    });
+  }
+
+  getSpans(): tracing.ReadableSpan[] {
+    return this.spanExporter.getFinishedSpans();
+  }
+
+  /** Event log records (with `eventEmissionMode: 'logs' | 'both'`), optionally filtered by event name */
+  getLogRecords(eventName?: string): sdkLogs.ReadableLogRecord[] {
+    const records = this.logExporter.getFinishedLogRecords();
+    return eventName ? records.filter(record => record.eventName === eventName) : records;
+  }
+
+  /** The finished span for an evaluation id (matched on `evalops.eval.id`) */
+  getSpan(evalId: string): tracing.ReadableSpan | undefined {
+    return this.getSpans().find(span => span.attributes[ATTR.EVAL_ID] === evalId);
+  }
+
+  expectSpan(evalId: string): SpanAssertion {
+    const span = this.getSpan(evalId);
+    if (!span) {
+      const seen = this.getSpans().map(s => String(s.attributes[ATTR.EVAL_ID]));
+      throw new Error(`No span recorded for eval ${evalId} (recorded: ${seen.join(', ') || 'none'})`);
+    }
+    return new SpanAssertion(span);
+  }
+
+  /** Collect cumulative data points for a histogram, e.g. 'gen_ai.client.token.usage' */
+  async getHistogramPoints(name: string): Promise<HistogramPoint[]> {
+    const { resourceMetrics } = await this.metricReader.collect();
+    return resourceMetrics.scopeMetrics
+      .flatMap(scope => scope.metrics)
+      .filter(metric => metric.descriptor.name === name && metric.dataPointType === sdkMetrics.DataPointType.HISTOGRAM)
+      .flatMap(metric => metric.dataPoints as Array<sdkMetrics.DataPoint<sdkMetrics.Histogram>>)
+      .map(point => ({
+        attributes: point.attributes,
+        count: point.value.count,
+        sum: point.value.sum ?? 0,
+        min: point.value.min,
+        max: point.value.max,
+      }));
+  }
+
+  /** Forget recorded spans and log records (metrics are cumulative and keep accumulating) */
+  reset(): void {
+    this.spanExporter.reset();
+    this.logExporter.reset();
+  }
+
+  async shutdown(): Promise<void> {
+    await this.eval2otel.shutdown();
+    await this.tracerProvider.shutdown();
+    await this.meterProvider.shutdown();
+    await this.loggerProvider.shutdown();
+  }
+}
+
+export function createTestEval2Otel(config: Partial<OtelConfig> = {}): Eval2OtelTestHarness {
+  return new Eval2OtelTestHarness(config);
+}
@@ -1,5 +1,9 @@
-import { Span, SpanContext } from '@opentelemetry/api';
+import { MeterProvider, Span, SpanContext, TracerProvider } from '@opentelemetry/api';
+import type { LoggerProvider } from '@opentelemetry/api-logs';
+import type { InstrumentationConfigMap } from '@opentelemetry/auto-instrumentations-node';
+import type { NodeSDKConfiguration } from '@opentelemetry/sdk-node';
 import { z } from 'zod';
+import type { DeterministicIdGenerator } from './ids';
 
 export const ConversionWarningSchema = z.object({
   code: z.string(),
@@ -30,6 +34,33 @@ export const Eval2OtelEvidenceSchema = z.object({
   warnings: z.array(ConversionWarningSchema).optional(),
 });
 
+/**
+ * One part of a multimodal message. Media parts carry metadata and an optional
+ * URI only; raw bytes (e.g. base64 `data`) are dropped by validation.
+ */
+export const ContentPartSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('text'),
+    text: z.string(),
+  }),
+  z.object({
+    type: z.enum(['image', 'audio', 'file']),
+    mimeType: z.string().optional(),
+    byteSize: z.number().int().nonnegative().optional(),
+    width: z.number().int().positive().optional(),
+    height: z.number().int().positive().optional(),
+    sha256: z.string().optional(),
+    filename: z.string().optional(),
+    uri: z.string().optional(),
+  }),
+]);
+
+const MessageContentSchema = z.union([
+  z.string(),
+  z.array(ContentPartSchema),
+  z.record(z.string(), z.unknown()),
+]);
+
 // Zod schema for runtime validation
 export const EvalResultSchema = z.object({
   id: z.string(),
@@ -62,7 +93,7 @@ export const EvalResultSchema = z.object({
       finishReason: z.string(),
       message: z.object({
         role: z.string(),
-        content: z.union([z.string(), z.record(z.string(), z.unknown())]).optional(),
+        content: MessageContentSchema.optional(),
         toolCalls: z.array(z.object({
           id: z.string(),
           type: z.string(),
@@ -70,6 +101,14 @@ export const EvalResultSchema = z.object({
             name: z.string(),
             arguments: z.record(z.string(), z.unknown()).optional(),
           }),
+          // Tool execution, used by toolCallMode: 'spans' (times in epoch ms)
+          startTime: z.number().optional(),
+          endTime: z.number().optional(),
+          result: z.union([z.string(), z.record(z.string(), z.unknown())]).optional(),
+          error: z.object({
+            type: z.string(),
+            message: z.string(),
+          }).optional(),
         })).optional(),
       }),
     })).optional(),
@@ -100,7 +139,7 @@ export const EvalResultSchema = z.object({
     id: z.string(),
     messages: z.array(z.object({
       role: z.enum(['system', 'user', 'assistant', 'tool']),
-      content: z.union([z.string(), z.record(z.string(), z.unknown())]).optional(),
+      content: MessageContentSchema.optional(),
       toolCallId: z.string().optional(),
       toolCalls: z.array(z.object({
         id: z.string(),
@@ -128,7 +167,10 @@ export const EvalResultSchema = z.object({
     plan: z.string().optional(),
     reasoning: z.string().optional(),
     steps: z.array(z.object({
+      id: z.string().optional(),
       name: z.string(),
+      // `id` (or else `name`) of an earlier step this one is nested under
+      parentStep: z.string().optional(),
       type: z.string().optional(),
       status: z.enum(['pending', 'running', 'completed', 'failed']),
       duration: z.number().optional(), // milliseconds
@@ -195,6 +237,7 @@ export const EvalResultSchema = z.object({
 });
 
 export type EvalResult = z.infer<typeof EvalResultSchema>;
+export type ContentPart = z.infer<typeof ContentPartSchema>;
 export type ConversionWarning = z.infer<typeof ConversionWarningSchema>;
 export type Eval2OtelProvenance = z.infer<typeof Eval2OtelProvenanceSchema>;
 export type Eval2OtelEvidence = z.infer<typeof Eval2OtelEvidenceSchema>;
@@ -213,6 +256,50 @@ export interface ConversionReport {
   warnings: ConversionWarning[];
   durationMs: number;
   errorType?: string;
+  /** Per-destination reports when `OtelConfig.destinations` is configured */
+  destinations?: DestinationConversionReport[];
+  /** Whether a span was emitted, set when `OtelConfig.spanSampling` is configured */
+  sampled?: boolean;
+  /** Sampling weight recorded on the span, set when `OtelConfig.spanSampling` is configured */
+  samplingWeight?: number;
+  /** True when `OtelConfig.dedupe` skipped the evaluation as already converted */
+  duplicate?: boolean;
+}
+
+export interface DestinationConversionReport extends ConversionReport {
+  destination: string;
+}
+
+/** Aggregate of the per-evaluation reports produced by `processEvaluations` */
+export interface BatchConversionReport {
+  reports: ConversionReport[];
+  total: number;
+  successCount: number;
+  failureCount: number;
+  /** Evaluations converted without a span because span sampling dropped them */
+  sampledOutCount: number;
+  /** Evaluations skipped because `OtelConfig.dedupe` had already seen them */
+  duplicateCount: number;
+  droppedEventCount: number;
+  redactedContentCount: number;
+  truncatedContentCount: number;
+  warningCount: number;
+  /** Warnings from every report, keyed by warning code */
+  warningsByCode: Record<string, ConversionWarning[]>;
+  /** Wall-clock duration of the whole batch */
+  durationMs: number;
+}
+
+/** An in-flight evaluation span started by `Eval2OtelConverter.startEvalSpan` */
+export interface ActiveEvalSpan {
+  span: Span;
+  evalResult: EvalResult;
+  spanName: string;
+  startTime: number;
+  /** `evalops.sampling.weight` when `spanSampling` kept the evaluation */
+  samplingWeight?: number;
+  /** Conversation messages before this index are not emitted (see `conversationMessageOffset`) */
+  messageOffset?: number;
 }
 
 export interface ProviderConversionResult {
@@ -235,6 +322,174 @@ export interface ProviderAdapter {
   convert(input: ProviderAdapterInput): ProviderConversionResult;
 }
 
+export type QueueOverflowPolicy = 'block' | 'drop-oldest' | 'drop-newest';
+
+export interface QueueOptions {
+  /** Maximum number of buffered (not yet started) evaluations. Default: 1000 */
+  maxSize?: number;
+  /** Number of evaluations processed concurrently. Default: 1 */
+  concurrency?: number;
+  /** What to do when the buffer is full. Default: 'block' */
+  overflow?: QueueOverflowPolicy;
+}
+
+/**
+ * A hook set run around conversion. Processors run in registration order and
+ * may mutate the result in place or return a replacement.
+ */
+export interface EvalProcessor {
+  /** Used in error messages */
+  name?: string;
+  /**
+   * Runs before validation and conversion. Return nothing to keep the (possibly
+   * mutated) result, a new result, an array to split it, or null to drop it.
+   */
+  beforeConvert?: (evalResult: EvalResult, options?: ProcessOptions) => EvalResult | EvalResult[] | null | void;
+  /** Runs once the primary span is populated, before it ends */
+  afterConvert?: (span: Span, report: ConversionReport, evalResult: EvalResult) => void;
+  /** Return false to skip metric recording, or a result to record metrics from */
+  beforeRecordMetrics?: (evalResult: EvalResult, options?: ProcessOptions) => EvalResult | false | void;
+}
+
+/** Span-level sampling that keeps notable outcomes and samples passing evaluations */
+export interface SpanSamplingConfig {
+  /** Fraction of passing evaluations that get a span (0-1) */
+  passRate: number;
+  /** Extra always-keep rule on top of errors, failed assertions and safety flags */
+  alwaysKeep?: (evalResult: EvalResult) => boolean;
+}
+
+/** A conversion failure handed to `onError` callbacks and the dead-letter sink */
+export interface FailedEvaluation {
+  /** The rejected input, exactly as passed to processEvaluation */
+  input: unknown;
+  error: unknown;
+  /** Schema issues when the input failed EvalResult validation */
+  issues?: z.ZodIssue[];
+  report: ConversionReport;
+}
+
+export type ErrorPolicy = 'throw' | 'log' | 'skip' | ((failure: FailedEvaluation) => void);
+
+export interface DeadLetterConfig {
+  /** JSONL file that failed evaluations are appended to (created if missing) */
+  path: string;
+}
+
+/** Identity of an eval run opened with `Eval2Otel.startRun` */
+export interface RunOptions {
+  runId: string;
+  datasetId?: string;
+  datasetVersion?: string;
+  /** Extra attributes for the `evalops.run` span */
+  attributes?: Record<string, string | number | boolean>;
+  /** Run start in epoch milliseconds, e.g. when backfilling (default: now) */
+  startTime?: number;
+}
+
+/** Aggregates recorded on the `evalops.run` span when the run ends */
+export interface RunSummary {
+  runId: string;
+  caseCount: number;
+  passCount: number;
+  /** Cases that errored, failed conversion, or had a notable outcome (see `isNotableOutcome`) */
+  failCount: number;
+  inputTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+  /** Median case duration in seconds (undefined for an empty run) */
+  durationP50?: number;
+  /** 95th percentile case duration in seconds */
+  durationP95?: number;
+  warningCount: number;
+}
+
+/** Skip evaluations already converted, keyed on eval id plus raw payload hash */
+export interface DedupeConfig {
+  /** Keys kept by the in-memory LRU index (default: 10000); ignored with `indexPath` */
+  maxEntries?: number;
+  /** Persist keys to this file so separate runs (e.g. CLI replays) share the index */
+  indexPath?: string;
+}
+
+/** Link the turns of a conversation (same `conversation.id`) to each other */
+export interface ConversationTrackingConfig {
+  /** Forget a conversation this long after its last turn (default: 30 minutes) */
+  ttlMs?: number;
+  /** Conversations remembered at once, least recently used evicted first (default: 10000) */
+  maxConversations?: number;
+  /** Emit message events only for messages added since the previous turn (default: false) */
+  emitNewMessagesOnly?: boolean;
+}
+
+/** Derive trace ids from `provenance.runId` and span ids from the evaluation id */
+export interface DeterministicIdsConfig {
+  /** Key hashed into the span id (default: `EvalResult.id`) */
+  spanIdKey?: (evalResult: EvalResult) => string | undefined;
+  /**
+   * Generator installed in the tracer provider. Eval2Otel creates one and
+   * installs it in the providers it builds; pass your own when you supply the
+   * SDK or `tracerProvider`.
+   */
+  idGenerator?: DeterministicIdGenerator;
+}
+
+export type ResourceDetectorName = 'ci' | 'git';
+
+/** Process hooks that flush telemetry before short-lived scripts exit */
+export interface ShutdownHooksConfig {
+  /** Deadline for draining the queue and flushing every pipeline (default: 5000) */
+  timeoutMs?: number;
+  /** Signals to flush on before re-raising them (default: SIGINT, SIGTERM) */
+  signals?: NodeJS.Signals[];
+  /** Also flush on uncaught exceptions, then exit with code 1 (default: true) */
+  uncaughtException?: boolean;
+}
+
+export type EventEmissionMode = 'span-events' | 'logs' | 'both';
+
+export type ToolCallMode = 'events' | 'spans';
+
+export type AgentStepMode = 'events' | 'spans';
+
+export type MessageFormat = 'events' | 'attributes' | 'both';
+
+export type InstrumentationPreset = 'none' | 'http-only' | 'all';
+
+/** Instrumentations in the shape NodeSDK accepts */
+export type SdkInstrumentations = NodeSDKConfiguration['instrumentations'];
+
+/**
+ * Which auto-instrumentations to register: a named preset, an explicit list,
+ * or a per-instrumentation config map for `getNodeAutoInstrumentations`.
+ */
+export type InstrumentationOption = InstrumentationPreset | SdkInstrumentations | InstrumentationConfigMap;
+
+/**
+ * An additional export target with its own privacy policy. Unset policy
+ * fields inherit the top-level `OtelConfig` value.
+ */
+export interface DestinationConfig extends Pick<OtelConfig,
+  | 'exporterProtocol'
+  | 'captureContent'
+  | 'sampleContentRate'
+  | 'contentSampler'
+  | 'contentMaxLength'
+  | 'markTruncatedContent'
+  | 'emitOperationalMetadata'
+  | 'redact'
+  | 'redactMessageContent'
+  | 'redactToolArguments'
+  | 'maxEventsPerSpan'
+> {
+  /** Name reported in per-destination conversion reports */
+  name: string;
+  /** Base OTLP endpoint for this destination (traces are sent to /v1/traces over HTTP) */
+  endpoint: string;
+  /** OTLP headers for this destination (e.g., vendor API key) */
+  headers?: Record<string, string>;
+}
+
 export interface OtelConfig {
   /** Service name for OpenTelemetry */
   serviceName: string;
@@ -294,9 +549,16 @@ export interface OtelConfig {
   /** Custom resource attributes */
   resourceAttributes?: Record<string, string | number | boolean>;
 
-  /** Opt-in controls for semantic convention stability (passed through to env) */
+  /**
+   * Add VCS and CI resource attributes: 'ci' reads GitHub Actions, GitLab CI,
+   * Buildkite and Jenkins variables; 'git' reads the local `.git` directory
+   * when no CI provider was detected. `resourceAttributes` override them.
+   */
+  resourceDetectors?: ResourceDetectorName[];
+
+  /** Opt-in controls for semantic convention stability (recorded as evalops.semconv.version) */
   semconvStabilityOptIn?: string; // e.g., "genai,stable" or provider-specific knobs
-  /** GA semconv version pin (honored if env var not set) */
+  /** GA semconv version pin (takes precedence over semconvStabilityOptIn) */
   semconvGaVersion?: string; // e.g., "1.37.0"
 
   /** Max events per span to guard costs/cardinality */
@@ -320,6 +582,100 @@ export interface OtelConfig {
   sdk?: unknown; // NodeSDK (kept loose here to avoid hard dep in types)
   /** Whether Eval2Otel should start/shutdown the SDK (default: true) */
   manageSdkLifecycle?: boolean;
+  /** Emit spans through this provider instead of the global one (e.g. an in-memory test provider) */
+  tracerProvider?: TracerProvider;
+  /** Record metrics through this provider instead of the global one */
+  meterProvider?: MeterProvider;
+  /** Emit event log records through this provider instead of the global one */
+  loggerProvider?: LoggerProvider;
+
+  /**
+   * Where GenAI events (messages, choices, agent steps, RAG chunks) go: span
+   * events (default), log records correlated by trace/span id, or both
+   */
+  eventEmissionMode?: EventEmissionMode;
+
+  /**
+   * How response tool calls are recorded: `gen_ai.tool.message` events on the
+   * chat span (default) or child `gen_ai.execute_tool` spans with the call's
+   * own timing, status and (when content is captured) arguments and result
+   */
+  toolCallMode?: ToolCallMode;
+
+  /**
+   * How agent steps are recorded: `gen_ai.agent.step` events (default) or a
+   * tree of child `gen_ai.agent.step` spans laid out back to back from the
+   * evaluation start using step durations
+   */
+  agentStepMode?: AgentStepMode;
+
+  /**
+   * How messages and choices are recorded: per-message events (default),
+   * structured JSON in `gen_ai.input.messages`, `gen_ai.output.messages` and
+   * `gen_ai.system_instructions` span attributes, or both while migrating
+   */
+  messageFormat?: MessageFormat;
+
+  /** Buffer size, concurrency and overflow policy for `enqueue`/`processEvaluationAsync` */
+  queue?: QueueOptions;
+
+  /** Extra trace destinations, each rendered with its own content/redaction policy */
+  destinations?: DestinationConfig[];
+
+  /** Auto-instrumentations registered by initialize() (default: 'all') */
+  instrumentations?: InstrumentationOption;
+
+  /**
+   * What processEvaluation does when conversion fails (default: 'throw').
+   * 'log' reports to console.error and continues, 'skip' continues silently,
+   * and a callback receives the failure instead.
+   */
+  onError?: ErrorPolicy;
+
+  /** Append failed evaluations (input, schema issues, failure report) to a JSONL file for replay */
+  deadLetter?: DeadLetterConfig;
+
+  /** Ordered processor pipeline applied by processEvaluation (see `Eval2Otel.use`) */
+  processors?: EvalProcessor[];
+
+  /**
+   * Drop spans for a share of passing evaluations. Metrics still see every
+   * result; kept spans carry `evalops.sampling.weight` for re-weighting.
+   */
+  spanSampling?: SpanSamplingConfig;
+
+  /**
+   * Skip evaluations whose `evalops.eval.id` and `evalops.raw_payload_sha256`
+   * were already converted successfully, so replayed batches don't duplicate
+   * spans or double-count metrics
+   */
+  dedupe?: DedupeConfig;
+
+  /**
+   * Derive trace and span ids from run and case identifiers so re-exports
+   * overwrite instead of duplicating and trace URLs can be computed up front
+   */
+  deterministicIds?: DeterministicIdsConfig;
+
+  /**
+   * Install signal, `beforeExit` and uncaught-exception handlers that shut
+   * down within a deadline and then let the process exit as it would have.
+   * Removed by `shutdown()`.
+   */
+  registerShutdownHooks?: boolean | ShutdownHooksConfig;
+
+  /**
+   * In `processEvaluations`, synthesize an `evalops.workflow` span per
+   * `workflow.id`, nest workflows by `parentWorkflowId` and parent each
+   * result under its workflow, so one batch becomes one trace
+   */
+  workflowHierarchy?: boolean;
+
+  /**
+   * Remember the last span per `conversation.id` so each turn links to the
+   * previous one and carries `gen_ai.conversation.turn_index`
+   */
+  conversationTracking?: ConversationTrackingConfig;
 }
 
 export interface ProcessOptions {
@@ -333,6 +689,9 @@ export interface ProcessOptions {
   
   /** Additional attributes for this evaluation */
   attributes?: Record<string, string | number | boolean>;
+
+  /** Skip events for conversation messages before this index (set by `conversationTracking`) */
+  conversationMessageOffset?: number;
 }
 
 export interface GenAIAttributes {
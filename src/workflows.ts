@@ -0,0 +1,129 @@
+import { Span, SpanContext } from '@opentelemetry/api';
+import { ConversionReport, EvalResult, ProcessOptions } from './types';
+
+type ProcessFn = (evalResult: EvalResult, options?: ProcessOptions) => ConversionReport[];
+
+/** A workflow span to synthesize, spanning its own results and its child workflows */
+export interface WorkflowSpanOptions {
+  id: string;
+  name?: string;
+  parentWorkflowId?: string;
+  startTime: number;
+}
+
+type StartWorkflowSpanFn = (workflow: WorkflowSpanOptions, options?: ProcessOptions) => Span;
+
+interface WorkflowNode {
+  id: string;
+  name?: string;
+  parentWorkflowId?: string;
+  startTime?: number;
+  endTime?: number;
+}
+
+const DEFAULT_MAX_REMEMBERED = 10000;
+
+/**
+ * Rebuilds workflow trees for `processEvaluations` batches. Each distinct
+ * `workflow.id` gets one `evalops.workflow` span, nested under its
+ * `parentWorkflowId` span when that workflow is in the same batch; results
+ * with a `workflow` are parented under their workflow's span. A parent outside
+ * the batch becomes a span link when an earlier batch on this instance emitted
+ * it, and otherwise stays the `gen_ai.workflow.parent_id` attribute only.
+ */
+export class WorkflowHierarchy {
+  private spanContexts = new Map<string, SpanContext>();
+
+  constructor(private startWorkflowSpan: StartWorkflowSpanFn, private maxRemembered = DEFAULT_MAX_REMEMBERED) {}
+
+  process(evalResults: EvalResult[], options: ProcessOptions | undefined, processFn: ProcessFn): ConversionReport[] {
+    const nodes = collectWorkflows(evalResults);
+    const spans = new Map<string, Span>();
+    const opening = new Set<string>();
+
+    const open = (id: string): Span | undefined => {
+      const existing = spans.get(id);
+      if (existing) return existing;
+      const node = nodes.get(id);
+      // A parent still being opened means the batch has a cycle; treat it as external
+      if (!node || opening.has(id)) return undefined;
+      opening.add(id);
+      const parentId = node.parentWorkflowId;
+      const parentSpan = parentId !== undefined && parentId !== id ? open(parentId) : undefined;
+      const linked = parentId !== undefined && !parentSpan ? this.spanContexts.get(parentId) : undefined;
+      const span = this.startWorkflowSpan(
+        { id, name: node.name, parentWorkflowId: parentId, startTime: node.startTime ?? Date.now() },
+        {
+          ...options,
+          parentSpan: parentSpan ?? options?.parentSpan,
+          links: linked
+            ? [...(options?.links ?? []), { context: linked, attributes: { 'gen_ai.workflow.parent_id': parentId } }]
+            : options?.links,
+        },
+      );
+      opening.delete(id);
+      spans.set(id, span);
+      this.remember(id, span.spanContext());
+      return span;
+    };
+    nodes.forEach((_node, id) => open(id));
+
+    try {
+      return evalResults.flatMap((evalResult) => {
+        const workflowId = workflowIdOf(evalResult);
+        const span = workflowId === undefined ? undefined : spans.get(workflowId);
+        return processFn(evalResult, span ? { ...options, parentSpan: span } : options);
+      });
+    } finally {
+      spans.forEach((span, id) => span.end(nodes.get(id)?.endTime));
+    }
+  }
+
+  private remember(id: string, spanContext: SpanContext): void {
+    this.spanContexts.delete(id);
+    this.spanContexts.set(id, spanContext);
+    if (this.spanContexts.size > this.maxRemembered) {
+      const oldest = this.spanContexts.keys().next().value;
+      if (oldest !== undefined) this.spanContexts.delete(oldest);
+    }
+  }
+}
+
+function workflowIdOf(evalResult: EvalResult): string | undefined {
+  const id: unknown = evalResult?.workflow?.id;
+  return typeof id === 'string' ? id : undefined;
+}
+
+/** Workflows in the batch with time extents covering their results and child workflows */
+function collectWorkflows(evalResults: EvalResult[]): Map<string, WorkflowNode> {
+  const nodes = new Map<string, WorkflowNode>();
+  evalResults.forEach((evalResult) => {
+    const id = workflowIdOf(evalResult);
+    if (id === undefined) return;
+    const node = nodes.get(id) ?? { id };
+    node.name ??= evalResult.workflow?.name;
+    node.parentWorkflowId ??= evalResult.workflow?.parentWorkflowId;
+    if (typeof evalResult.timestamp === 'number') {
+      const duration = typeof evalResult.performance?.duration === 'number' ? evalResult.performance.duration : 0;
+      extend(node, evalResult.timestamp, evalResult.timestamp + duration * 1000);
+    }
+    nodes.set(id, node);
+  });
+
+  // Widen each ancestor chain to cover its descendants, stopping at cycles
+  nodes.forEach((node) => {
+    const seen = new Set([node.id]);
+    let parent = node.parentWorkflowId !== undefined ? nodes.get(node.parentWorkflowId) : undefined;
+    while (parent && !seen.has(parent.id) && node.startTime !== undefined && node.endTime !== undefined) {
+      extend(parent, node.startTime, node.endTime);
+      seen.add(parent.id);
+      parent = parent.parentWorkflowId !== undefined ? nodes.get(parent.parentWorkflowId) : undefined;
+    }
+  });
+  return nodes;
+}
+
+function extend(node: WorkflowNode, startTime: number, endTime: number): void {
+  node.startTime = node.startTime === undefined ? startTime : Math.min(node.startTime, startTime);
+  node.endTime = node.endTime === undefined ? endTime : Math.max(node.endTime, endTime);
+}
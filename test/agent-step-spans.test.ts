@@ -0,0 +1,69 @@
+import { SpanStatusCode } from '@opentelemetry/api';
+import { createTestEval2Otel } from '../src/testing';
+import { EvalResult } from '../src/types';
+
+const start = 1_700_000_000_000;
+
+const makeEval = (steps: NonNullable<EvalResult['agent']>['steps']): EvalResult => ({
+  id: 'agent-1', timestamp: start, model: 'gpt-4o', system: 'openai', operation: 'agent_execution',
+  request: { model: 'gpt-4o' }, response: {}, usage: {}, performance: { duration: 5 },
+  agent: { name: 'researcher', steps },
+});
+
+describe('agentStepMode: spans', () => {
+  it('lays steps out back to back and nests them under their parent step', async () => {
+    const harness = createTestEval2Otel({ agentStepMode: 'spans' });
+    harness.eval2otel.processEvaluation(makeEval([
+      { id: 'plan', name: 'plan', status: 'completed', duration: 200 },
+      { id: 'research', name: 'research', status: 'completed' },
+      { name: 'search', parentStep: 'research', status: 'completed', duration: 300 },
+      { name: 'read', parentStep: 'research', status: 'failed', duration: 500, error: 'page not found' },
+      { name: 'answer', status: 'running', duration: 100 },
+    ]));
+
+    const agent = harness.expectSpan('agent-1').span;
+    expect(agent.events.filter(e => e.name === 'gen_ai.agent.step')).toHaveLength(0);
+    const steps = new Map(harness.getSpans()
+      .filter(span => span.name === 'gen_ai.agent.step')
+      .map(span => [span.attributes['gen_ai.agent.step.name'], span]));
+    expect(steps.size).toBe(5);
+
+    const ms = (name: string) => {
+      const span = steps.get(name)!;
+      const toMs = ([s, ns]: [number, number]) => s * 1000 + ns / 1e6 - start;
+      return [toMs(span.startTime), toMs(span.endTime)];
+    };
+    expect(ms('plan')).toEqual([0, 200]);
+    expect(ms('research')).toEqual([200, 1000]);
+    expect(ms('search')).toEqual([200, 500]);
+    expect(ms('read')).toEqual([500, 1000]);
+    expect(ms('answer')).toEqual([1000, 1100]);
+
+    const research = steps.get('research')!;
+    expect(steps.get('plan')!.parentSpanContext?.spanId).toBe(agent.spanContext().spanId);
+    expect(research.parentSpanContext?.spanId).toBe(agent.spanContext().spanId);
+    expect(steps.get('search')!.parentSpanContext?.spanId).toBe(research.spanContext().spanId);
+    expect(steps.get('read')!.parentSpanContext?.spanId).toBe(research.spanContext().spanId);
+    expect(steps.get('search')!.attributes['gen_ai.agent.step.parent']).toBe('research');
+
+    const read = steps.get('read')!;
+    expect(read.status).toEqual({ code: SpanStatusCode.ERROR, message: 'page not found' });
+    expect(read.events[0].attributes).toMatchObject({ 'exception.type': 'AgentStepError', 'exception.message': 'page not found' });
+    expect(steps.get('plan')!.status.code).toBe(SpanStatusCode.OK);
+    expect(steps.get('answer')!.status.code).toBe(SpanStatusCode.UNSET);
+    await harness.shutdown();
+  });
+
+  it('keeps steps with unknown or later parent references at the top level', async () => {
+    const harness = createTestEval2Otel({ agentStepMode: 'spans' });
+    harness.eval2otel.processEvaluation(makeEval([
+      { name: 'a', parentStep: 'b', status: 'completed', duration: 10 },
+      { name: 'b', parentStep: 'missing', status: 'completed', duration: 10 },
+    ]));
+
+    const agentSpanId = harness.expectSpan('agent-1').span.spanContext().spanId;
+    const steps = harness.getSpans().filter(span => span.name === 'gen_ai.agent.step');
+    expect(steps.map(span => span.parentSpanContext?.spanId)).toEqual([agentSpanId, agentSpanId]);
+    await harness.shutdown();
+  });
+});
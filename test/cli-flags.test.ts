@@ -23,5 +23,58 @@ describe('CLI flags wiring', () => {
     expect(cfg.contentMaxLength).toBe(123);
     expect(typeof cfg.redact).toBe('function');
     expect(cfg.enableExemplars).toBe(true);
+    expect(cfg.instrumentations).toBe('none');
+  });
+
+  it('passes --instrumentations through to the config', async () => {
+    jest.resetModules();
+    const createEval2Otel = jest.fn().mockReturnValue({ processEvaluation: jest.fn(), shutdown: jest.fn() });
+    jest.doMock('../src/index', () => ({ createEval2Otel }));
+    const { runCli } = await import('../src/cli');
+    await runCli(['node', 'eval2otel-cli', 'ingest', '--file', file, '--instrumentations', 'http-only']);
+    expect(createEval2Otel.mock.calls[0][0].instrumentations).toBe('http-only');
+  });
+
+  it('reports skipped duplicates with --dedupe-index', async () => {
+    jest.resetModules();
+    const logSpy = jest.spyOn(console, 'log').mockImplementation(() => {});
+    const processEvaluation = jest.fn().mockReturnValue([{ evalId: 'f1', success: true, duplicate: true }]);
+    const createEval2Otel = jest.fn().mockReturnValue({ processEvaluation, shutdown: jest.fn() });
+    jest.doMock('../src/index', () => ({ createEval2Otel }));
+    const { runCli } = await import('../src/cli');
+    await runCli(['node', 'eval2otel-cli', 'ingest', '--file', file, '--dedupe-index', '/tmp/eval2otel-index.txt']);
+    expect(createEval2Otel.mock.calls[0][0].dedupe).toEqual({ indexPath: '/tmp/eval2otel-index.txt' });
+    expect(logSpy).toHaveBeenCalledWith('Processed 1 evaluations (1 duplicates skipped)');
+    logSpy.mockRestore();
+  });
+
+  it('buffers lines into one batch with --workflow-hierarchy', async () => {
+    jest.resetModules();
+    const processEvaluation = jest.fn();
+    const processEvaluations = jest.fn().mockReturnValue({ duplicateCount: 0 });
+    const createEval2Otel = jest.fn().mockReturnValue({ processEvaluation, processEvaluations, shutdown: jest.fn() });
+    jest.doMock('../src/index', () => ({ createEval2Otel }));
+    const { runCli } = await import('../src/cli');
+    await runCli(['node', 'eval2otel-cli', 'ingest', '--file', file, '--workflow-hierarchy']);
+    const cfg = createEval2Otel.mock.calls[0][0];
+    expect(cfg.workflowHierarchy).toBe(true);
+    expect(cfg.onError).toBe('log');
+    expect(processEvaluation).not.toHaveBeenCalled();
+    expect(processEvaluations.mock.calls[0][0].map((r: { id: string }) => r.id)).toEqual(['f1']);
+  });
+
+  it('loads --processor modules into the config', async () => {
+    const moduleFile = __dirname + '/tmp-processor.js';
+    fs.writeFileSync(moduleFile, 'module.exports = { beforeConvert: () => undefined };');
+    try {
+      jest.resetModules();
+      const createEval2Otel = jest.fn().mockReturnValue({ processEvaluation: jest.fn(), shutdown: jest.fn() });
+      jest.doMock('../src/index', () => ({ createEval2Otel }));
+      const { runCli } = await import('../src/cli');
+      await runCli(['node', 'eval2otel-cli', 'ingest', '--file', file, '--processor', moduleFile]);
+      expect(createEval2Otel.mock.calls[0][0].processors).toHaveLength(1);
+    } finally {
+      fs.unlinkSync(moduleFile);
+    }
   });
 });
@@ -0,0 +1,58 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import type { Eval2OtelTestHarness } from '../src/testing';
+
+describe('CLI replay of provider-format lines', () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'eval2otel-replay-'));
+  const file = path.join(dir, 'openai.jsonl');
+  const indexPath = path.join(dir, 'index.txt');
+  let harnesses: Eval2OtelTestHarness[] = [];
+
+  beforeAll(() => {
+    fs.writeFileSync(file, JSON.stringify({
+      request: { model: 'gpt-4o', messages: [{ role: 'user', content: 'hi' }] },
+      response: {
+        id: 'chatcmpl-1', object: 'chat.completion', created: 0, model: 'gpt-4o',
+        choices: [{ index: 0, finish_reason: 'stop', message: { role: 'assistant', content: 'hello' } }],
+      },
+    }) + '\n');
+  });
+  afterAll(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+  const ingest = async (...flags: string[]) => {
+    jest.resetModules();
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    const { createTestEval2Otel } = jest.requireActual<typeof import('../src/testing')>('../src/testing');
+    jest.doMock('../src/index', () => ({
+      ...jest.requireActual('../src/index'),
+      createEval2Otel: (config: object) => {
+        const harness = createTestEval2Otel(config);
+        harnesses.push(harness);
+        return harness.eval2otel;
+      },
+    }));
+    const { runCli } = await import('../src/cli');
+    await runCli(['node', 'eval2otel-cli', 'ingest', '--file', file, ...flags]);
+    return harnesses[harnesses.length - 1].getSpans();
+  };
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await Promise.all(harnesses.map(harness => harness.shutdown()));
+    harnesses = [];
+  });
+
+  it('skips an already ingested line on the second run with --dedupe-index', async () => {
+    expect(await ingest('--dedupe-index', indexPath)).toHaveLength(1);
+    expect(await ingest('--dedupe-index', indexPath)).toHaveLength(0);
+  });
+
+  it('reproduces the same trace and span ids with --deterministic-ids', async () => {
+    const [first] = await ingest('--deterministic-ids');
+    const [second] = await ingest('--deterministic-ids');
+    expect(second.spanContext().traceId).toBe(first.spanContext().traceId);
+    expect(second.spanContext().spanId).toBe(first.spanContext().spanId);
+    expect(second.attributes['evalops.eval.id']).toBe(first.attributes['evalops.eval.id']);
+  });
+});
@@ -0,0 +1,77 @@
+import { validateOtelConfig } from '../src/config';
+import { Eval2Otel } from '../src/index';
+
+describe('OtelConfig validation', () => {
+  it('accepts a valid config without warnings', () => {
+    expect(validateOtelConfig({
+      serviceName: 'svc',
+      captureContent: true,
+      sampleContentRate: 0.5,
+      contentMaxLength: 100,
+      redact: s => s,
+      queue: { maxSize: 10, overflow: 'drop-oldest' },
+      destinations: [{ name: 'vendor', endpoint: 'http://vendor:4318' }],
+    }).warnings).toEqual([]);
+  });
+
+  it('rejects bad values with errors naming the path', () => {
+    const config = JSON.parse(JSON.stringify({
+      serviceName: 'svc',
+      sampleContentRate: 5,
+      contentMaxLength: -1,
+      maxEventsPerSpan: '10',
+      exporterProtocol: 'udp',
+      destinations: [{ name: 'vendor' }],
+    }));
+    let message = '';
+    try {
+      validateOtelConfig(config);
+    } catch (error) {
+      message = (error as Error).message;
+    }
+    expect(message).toContain('Invalid eval2otel config');
+    expect(message).toMatch(/sampleContentRate: Too big/);
+    expect(message).toMatch(/contentMaxLength: Too small/);
+    expect(message).toMatch(/maxEventsPerSpan: .*expected number, received string/);
+    expect(message).toMatch(/exporterProtocol: Invalid option/);
+    expect(message).toMatch(/destinations\[0\]\.endpoint: /);
+  });
+
+  it('returns warnings for ineffective option combinations', () => {
+    const { warnings } = validateOtelConfig({
+      serviceName: 'svc',
+      useSdk: false,
+      endpoint: 'http://collector:4318',
+      contentSampler: () => true,
+      sampleContentRate: 0.1,
+      contentMaxLength: 50,
+    });
+    expect(warnings.map(w => w.code)).toEqual([
+      'config.exporter_ignored',
+      'config.sample_rate_ignored',
+      'config.content_options_unused',
+    ]);
+  });
+
+  it('warns about misspelled keys instead of dropping them silently', () => {
+    const config = JSON.parse(JSON.stringify({
+      serviceName: 'svc',
+      captureContents: true,
+      spanSampling: { passrate: 0.5, passRate: 1 },
+      destinations: [{ name: 'vendor', endpoint: 'http://vendor:4318', header: {} }],
+    }));
+    const { warnings } = validateOtelConfig(config);
+    expect(warnings.filter(w => w.code === 'config.unknown_option').map(w => w.message)).toEqual([
+      '`destinations[0].header` is not a known option and is ignored',
+      '`spanSampling.passrate` is not a known option and is ignored',
+      '`captureContents` is not a known option and is ignored',
+    ]);
+    expect(() => validateOtelConfig({ ...config, sampleContentRate: 2 })).toThrow(/sampleContentRate: Too big/);
+  });
+
+  it('Eval2Otel validates in the constructor and exposes warnings', () => {
+    expect(() => new Eval2Otel({ serviceName: 'svc', useSdk: false, queue: { concurrency: 0 } })).toThrow('queue.concurrency');
+    const eval2otel = new Eval2Otel({ serviceName: 'svc', useSdk: false, semconvGaVersion: '1.37.0', semconvStabilityOptIn: 'genai' });
+    expect(eval2otel.getConfigWarnings()[0].code).toBe('config.semconv_opt_in_ignored');
+  });
+});
@@ -0,0 +1,86 @@
+import { ConversationTracker } from '../src/conversations';
+import { createTestEval2Otel } from '../src/testing';
+import { EvalResult } from '../src/types';
+
+type Message = NonNullable<EvalResult['conversation']>['messages'][number];
+
+const makeTurn = (id: string, messages: Message[], conversationId = 'conv-1'): EvalResult => ({
+  id, timestamp: Date.now(), model: 'gpt-4o', system: 'openai', operation: 'chat',
+  request: { model: 'gpt-4o' }, response: {}, usage: {}, performance: { duration: 1 },
+  conversation: { id: conversationId, messages },
+});
+
+const history: Message[] = [
+  { role: 'user', content: 'hi' },
+  { role: 'assistant', content: 'hello' },
+  { role: 'user', content: 'what is otel?' },
+  { role: 'assistant', content: 'a telemetry standard' },
+];
+
+describe('conversationTracking', () => {
+  it('links each turn to the previous one and tags the turn index', async () => {
+    const harness = createTestEval2Otel({ conversationTracking: {} });
+    harness.eval2otel.processEvaluation(makeTurn('t0', history.slice(0, 2)));
+    harness.eval2otel.processEvaluation(makeTurn('t1', history));
+    harness.eval2otel.processEvaluation(makeTurn('other', history.slice(0, 1), 'conv-2'));
+
+    const t0 = harness.expectSpan('t0').toHaveAttribute('gen_ai.conversation.turn_index', 0).span;
+    const t1 = harness.expectSpan('t1').toHaveAttribute('gen_ai.conversation.turn_index', 1).span;
+    harness.expectSpan('other').toHaveAttribute('gen_ai.conversation.turn_index', 0);
+    expect(t0.links).toHaveLength(0);
+    expect(t1.links).toHaveLength(1);
+    expect(t1.links[0].context.spanId).toBe(t0.spanContext().spanId);
+    expect(t1.links[0].attributes).toEqual({ 'gen_ai.conversation.turn_index': 0 });
+    await harness.shutdown();
+  });
+
+  it('emits only messages added since the previous turn with emitNewMessagesOnly', async () => {
+    const harness = createTestEval2Otel({ captureContent: true, conversationTracking: { emitNewMessagesOnly: true } });
+    harness.eval2otel.processEvaluation(makeTurn('t0', history.slice(0, 2)));
+    harness.eval2otel.processEvaluation(makeTurn('t1', history));
+    // A rewritten (shorter) history is emitted in full again
+    harness.eval2otel.processEvaluation(makeTurn('t2', history.slice(0, 1)));
+
+    const messageIndexes = (evalId: string) => harness.expectSpan(evalId).span.events
+      .filter(event => event.name.endsWith('.message'))
+      .map(event => event.attributes?.['gen_ai.message.index']);
+    expect(messageIndexes('t0')).toEqual([0, 1]);
+    expect(messageIndexes('t1')).toEqual([2, 3]);
+    expect(messageIndexes('t2')).toEqual([0]);
+    await harness.shutdown();
+  });
+
+  it('forgets conversations after the TTL and evicts the least recently used', () => {
+    let now = 0;
+    const tracker = new ConversationTracker({ ttlMs: 1000, maxConversations: 2 }, () => now);
+    const spanContext = { traceId: 'a'.repeat(32), spanId: 'b'.repeat(16), traceFlags: 1 };
+    tracker.record(makeTurn('t0', history), spanContext);
+    expect(tracker.nextTurn(makeTurn('t1', history))).toMatchObject({ turnIndex: 1, previous: spanContext, newMessageOffset: 4 });
+
+    now = 1000;
+    expect(tracker.nextTurn(makeTurn('t1', history))).toEqual({ conversationId: 'conv-1', turnIndex: 0, newMessageOffset: 0 });
+
+    tracker.record(makeTurn('a', history, 'a'), spanContext);
+    tracker.record(makeTurn('b', history, 'b'), spanContext);
+    tracker.record(makeTurn('c', history, 'c'), spanContext);
+    expect(tracker.size).toBe(2);
+    expect(tracker.nextTurn(makeTurn('a', history, 'a'))?.turnIndex).toBe(0);
+    expect(tracker.nextTurn(makeTurn('x', []))).toMatchObject({ turnIndex: 0 });
+    expect(tracker.nextTurn({ ...makeTurn('none', []), conversation: undefined })).toBeUndefined();
+  });
+
+  it('counts sampled-out turns without linking to them', async () => {
+    const harness = createTestEval2Otel({
+      conversationTracking: {},
+      spanSampling: { passRate: 0, alwaysKeep: result => result.id !== 't1' },
+    });
+    harness.eval2otel.processEvaluation(makeTurn('t0', history.slice(0, 2)));
+    harness.eval2otel.processEvaluation(makeTurn('t1', history.slice(0, 3)));
+    harness.eval2otel.processEvaluation(makeTurn('t2', history));
+
+    const t0 = harness.expectSpan('t0').span;
+    const t2 = harness.expectSpan('t2').toHaveAttribute('gen_ai.conversation.turn_index', 2).span;
+    expect(t2.links[0].context.spanId).toBe(t0.spanContext().spanId);
+    await harness.shutdown();
+  });
+});
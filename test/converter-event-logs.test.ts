@@ -0,0 +1,54 @@
+import { SeverityNumber } from '@opentelemetry/api-logs';
+import { buildEventLogRecord } from '../src/events';
+import { createTestEval2Otel } from '../src/testing';
+import { EvalResult } from '../src/types';
+
+const evalResult = {
+  id: 'log-1', timestamp: 1_700_000_000_000, model: 'gpt-4', system: 'openai', operation: 'chat',
+  request: { model: 'gpt-4' },
+  response: { choices: [{ index: 0, finishReason: 'stop', message: { role: 'assistant', content: 'answer' } }] },
+  usage: {}, performance: { duration: 1 },
+  conversation: { id: 'c1', messages: [{ role: 'user', content: 'question' }] },
+  agent: { name: 'a', steps: [{ name: 'plan', status: 'failed', error: 'boom' }] },
+} as EvalResult;
+
+describe('Event emission mode', () => {
+  it('defaults to span events only', () => {
+    const harness = createTestEval2Otel({ captureContent: true });
+    harness.eval2otel.processEvaluation(evalResult);
+    harness.expectSpan('log-1').toHaveEvent('gen_ai.user.message');
+    expect(harness.getLogRecords()).toHaveLength(0);
+  });
+
+  it('logs mode emits correlated log records instead of span events', () => {
+    const harness = createTestEval2Otel({ captureContent: true, eventEmissionMode: 'logs' });
+    harness.eval2otel.processEvaluation(evalResult);
+
+    const span = harness.getSpan('log-1')!;
+    expect(span.events).toHaveLength(0);
+
+    const [user] = harness.getLogRecords('gen_ai.user.message');
+    expect(user.body).toEqual({ content: 'question', role: 'user' });
+    expect(user.attributes['gen_ai.message.content']).toBeUndefined();
+    expect(user.spanContext?.spanId).toBe(span.spanContext().spanId);
+    expect(user.hrTime[0]).toBe(1_700_000_000);
+    expect(user.severityNumber).toBe(SeverityNumber.INFO);
+
+    const [choice] = harness.getLogRecords('gen_ai.choice');
+    expect(choice.body).toEqual({ index: 0, finish_reason: 'stop', message: { content: 'answer', role: 'assistant' } });
+    expect(harness.getLogRecords('gen_ai.agent.step')[0].severityNumber).toBe(SeverityNumber.WARN);
+  });
+
+  it('both mode emits each event twice and shares the event cap', () => {
+    const harness = createTestEval2Otel({ captureContent: true, eventEmissionMode: 'both', maxEventsPerSpan: 2 });
+    harness.eval2otel.processEvaluation(evalResult);
+    expect(harness.getSpan('log-1')!.events.map(e => e.name)).toEqual(['gen_ai.user.message', 'gen_ai.assistant.message']);
+    expect(harness.getLogRecords().map(r => r.eventName)).toEqual(['gen_ai.user.message', 'gen_ai.choice']);
+  });
+
+  it('moves tool arguments into the log body', () => {
+    const record = buildEventLogRecord('gen_ai.tool.message', { 'gen_ai.tool.name': 'search', 'gen_ai.tool.arguments': '{"q":1}' });
+    expect(record.body).toEqual({ arguments: '{"q":1}' });
+    expect(record.attributes).toEqual({ 'gen_ai.tool.name': 'search' });
+  });
+});
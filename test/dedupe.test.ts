@@ -0,0 +1,75 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { DedupeIndex, dedupeKey } from '../src/dedupe';
+import { Eval2Otel } from '../src/index';
+import { createTestEval2Otel } from '../src/testing';
+import { EvalResult } from '../src/types';
+
+const makeEval = (id: string, extra: Partial<EvalResult> = {}): EvalResult => ({
+  id, timestamp: 1700000000000, model: 'gpt-4o', system: 'openai', operation: 'chat',
+  request: { model: 'gpt-4o' }, response: {}, usage: { inputTokens: 10, outputTokens: 5 }, performance: { duration: 1 },
+  ...extra,
+} as EvalResult);
+
+describe('Eval-id deduplication', () => {
+  it('keys on eval id plus raw payload hash, falling back to the result hash', () => {
+    const withPayload = makeEval('d1', { evidence: { rawPayloadSha256: 'abc' } });
+    expect(dedupeKey(withPayload)).toBe('d1:abc');
+    expect(dedupeKey(makeEval('d1'))).toBe(dedupeKey(makeEval('d1')));
+    expect(dedupeKey(makeEval('d1'))).not.toBe(dedupeKey(makeEval('d1', { model: 'other' })));
+  });
+
+  it('evicts the least recently used key in memory', () => {
+    const index = new DedupeIndex({ maxEntries: 2 });
+    index.add('a');
+    index.add('b');
+    expect(index.has('a')).toBe(true);
+    index.add('c');
+    expect(index.has('b')).toBe(false);
+    expect(index.has('a')).toBe(true);
+    expect(index.size).toBe(2);
+  });
+
+  it('persists keys to the index file across instances', () => {
+    const file = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'eval2otel-dedupe-')), 'nested', 'index.txt');
+    new DedupeIndex({ indexPath: file }).add('run1:hash');
+    const reloaded = new DedupeIndex({ indexPath: file });
+    expect(reloaded.has('run1:hash')).toBe(true);
+    expect(reloaded.has('run2:hash')).toBe(false);
+  });
+
+  it('skips spans and metrics for replayed evaluations and reports them', async () => {
+    const harness = createTestEval2Otel({ dedupe: {} });
+    harness.eval2otel.processEvaluations([makeEval('r1'), makeEval('r2')]);
+    const batch = harness.eval2otel.processEvaluations([makeEval('r2'), makeEval('r3')]);
+
+    expect(batch.duplicateCount).toBe(1);
+    expect(batch.reports.map(r => [r.evalId, r.duplicate ?? false])).toEqual([['r2', true], ['r3', false]]);
+    expect(harness.getSpans().map(s => s.attributes['evalops.eval.id'])).toEqual(['r1', 'r2', 'r3']);
+    const points = await harness.getHistogramPoints('gen_ai.client.token.usage');
+    expect(points.reduce((total, point) => total + point.count, 0)).toBe(6);
+    await harness.shutdown();
+  });
+
+  it('does not remember failed conversions so retries go through', () => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    const eval2otel = new Eval2Otel({ serviceName: 'svc', useSdk: false, onError: 'skip', dedupe: {} });
+    const convert = jest.spyOn(eval2otel.getConverter(), 'convertEvalResult')
+      .mockImplementationOnce(() => { throw new Error('exporter down'); });
+
+    expect(eval2otel.processEvaluation(makeEval('retry'))[0].success).toBe(false);
+    expect(eval2otel.processEvaluation(makeEval('retry'))[0].duplicate).toBeUndefined();
+    expect(eval2otel.processEvaluation(makeEval('retry'))[0].duplicate).toBe(true);
+    expect(convert).toHaveBeenCalledTimes(2);
+  });
+
+  it('warns when maxEntries is combined with a file index', () => {
+    const eval2otel = new Eval2Otel({
+      serviceName: 'svc',
+      useSdk: false,
+      dedupe: { maxEntries: 5, indexPath: path.join(os.tmpdir(), 'eval2otel-dedupe-unused.txt') },
+    });
+    expect(eval2otel.getConfigWarnings().map(w => w.code)).toContain('config.dedupe_max_entries_ignored');
+  });
+});
@@ -0,0 +1,91 @@
+import { tracing } from '@opentelemetry/sdk-node';
+import { Eval2OtelConverter } from '../src/converter';
+import { createDestinationTracerProvider, resolveDestinationConfig } from '../src/destinations';
+import { Eval2Otel } from '../src/index';
+import { EvalResult } from '../src/types';
+
+const evalResult: EvalResult = {
+  id: 'dest-1', timestamp: Date.now(), model: 'gpt-4', system: 'openai', operation: 'chat',
+  request: { model: 'gpt-4' },
+  response: { choices: [{ index: 0, finishReason: 'stop', message: { role: 'assistant', content: 'secret answer' } }] },
+  usage: {}, performance: { duration: 1 },
+  conversation: { id: 'c1', messages: [{ role: 'user', content: 'secret question' }] },
+} as any;
+
+function inMemoryTracer() {
+  const exporter = new tracing.InMemorySpanExporter();
+  const provider = new tracing.BasicTracerProvider({ spanProcessors: [new tracing.SimpleSpanProcessor(exporter)] });
+  return { exporter, tracer: provider.getTracer('test') };
+}
+
+describe('Destination fan-out', () => {
+  it('inherits unset policy fields from the top-level config', () => {
+    const redact = (s: string) => s;
+    const resolved = resolveDestinationConfig(
+      { serviceName: 'svc', captureContent: true, contentMaxLength: 10, redact },
+      { name: 'vendor', endpoint: 'http://vendor', captureContent: false },
+    );
+    expect(resolved.captureContent).toBe(false);
+    expect(resolved.contentMaxLength).toBe(10);
+    expect(resolved.redact).toBe(redact);
+    expect(resolved.destinations).toBeUndefined();
+  });
+
+  it('renders a span per destination with its own privacy policy', () => {
+    const primary = inMemoryTracer();
+    const internal = inMemoryTracer();
+    const vendor = inMemoryTracer();
+    const converter = new Eval2OtelConverter({ serviceName: 'svc', captureContent: false }, primary.tracer);
+    converter.addDestination({ name: 'tempo', endpoint: 'http://tempo', captureContent: true, maxEventsPerSpan: 1 }, internal.tracer);
+    converter.addDestination({ name: 'vendor', endpoint: 'http://vendor', captureContent: false }, vendor.tracer);
+
+    const report = converter.convertEvalResult(evalResult);
+
+    const [internalSpan] = internal.exporter.getFinishedSpans();
+    expect(internalSpan.events).toHaveLength(1);
+    expect(internalSpan.events[0].attributes?.['gen_ai.message.content']).toBe('secret question');
+    expect(internalSpan.attributes['evalops.dropped_event_count']).toBe(1);
+
+    const [vendorSpan] = vendor.exporter.getFinishedSpans();
+    expect(vendorSpan.events).toHaveLength(0);
+    expect(vendorSpan.attributes['evalops.prompt_sha256']).toMatch(/^[a-f0-9]{64}$/);
+    expect(primary.exporter.getFinishedSpans()).toHaveLength(1);
+
+    expect(report.destinations?.map(d => d.destination)).toEqual(['tempo', 'vendor']);
+    expect(report.destinations?.[0].droppedEventCount).toBe(1);
+    expect(report.destinations?.[1].eventCount).toBe(0);
+  });
+
+  it('fans out live spans started with startEvalSpan', () => {
+    const primary = inMemoryTracer();
+    const vendor = inMemoryTracer();
+    const converter = new Eval2OtelConverter({ serviceName: 'svc' }, primary.tracer);
+    converter.addDestination({ name: 'vendor', endpoint: 'http://vendor' }, vendor.tracer);
+
+    const active = converter.startEvalSpan(evalResult);
+    expect(vendor.exporter.getFinishedSpans()).toHaveLength(0);
+    const report = converter.endEvalSpan(active, new Error('boom'));
+
+    const [vendorSpan] = vendor.exporter.getFinishedSpans();
+    expect(vendorSpan.attributes['error.type']).toBe('Error');
+    expect(report.destinations?.[0].destination).toBe('vendor');
+  });
+
+  it('creates a standalone tracer provider per destination', () => {
+    const provider = createDestinationTracerProvider({ name: 'vendor', endpoint: 'http://vendor:4318', headers: { 'x-api-key': 'k' } });
+    expect(provider).toBeInstanceOf(tracing.BasicTracerProvider);
+  });
+
+  it('Eval2Otel wires configured destinations into the converter', () => {
+    const eval2otel = new Eval2Otel({
+      serviceName: 'svc',
+      useSdk: false,
+      destinations: [{ name: 'vendor', endpoint: 'http://127.0.0.1:9', captureContent: false }],
+    });
+    const spy = jest.spyOn(eval2otel.getConverter(), 'convertEvalResult');
+    eval2otel.processEvaluation(evalResult);
+    const report = spy.mock.results[0].value;
+    expect(report.destinations).toHaveLength(1);
+    expect(report.destinations[0].destination).toBe('vendor');
+  });
+});
@@ -0,0 +1,59 @@
+import { configFromEnv } from '../src/env';
+import { Eval2Otel } from '../src/index';
+
+describe('configFromEnv', () => {
+  it('reads eval2otel and standard OTEL_* variables', () => {
+    const config = configFromEnv({
+      OTEL_SERVICE_NAME: 'svc',
+      EVAL2OTEL_CAPTURE_CONTENT: 'yes',
+      EVAL2OTEL_SAMPLE_CONTENT_RATE: '0.25',
+      EVAL2OTEL_MAX_EVENTS_PER_SPAN: '10',
+      EVAL2OTEL_METRIC_ATTRIBUTE_ALLOWLIST: 'gen_ai.system, gen_ai.request.model',
+      OTEL_EXPORTER_OTLP_ENDPOINT: 'http://collector:4318',
+      OTEL_EXPORTER_OTLP_PROTOCOL: 'http/json',
+      OTEL_EXPORTER_OTLP_HEADERS: 'api-key=abc%3D,x-team=evals',
+      OTEL_RESOURCE_ATTRIBUTES: 'deployment.environment=ci',
+    });
+    expect(config).toEqual({
+      serviceName: 'svc',
+      captureContent: true,
+      sampleContentRate: 0.25,
+      maxEventsPerSpan: 10,
+      metricAttributeAllowlist: ['gen_ai.system', 'gen_ai.request.model'],
+      endpoint: 'http://collector:4318',
+      exporterProtocol: 'http/json',
+      exporterHeaders: { 'api-key': 'abc=', 'x-team': 'evals' },
+      resourceAttributes: { 'deployment.environment': 'ci' },
+    });
+  });
+
+  it('falls back to the GenAI capture flag and lets overrides win', () => {
+    const config = configFromEnv(
+      { OTEL_INSTRUMENTATION_GENAI_CAPTURE_MESSAGE_CONTENT: 'true', EVAL2OTEL_SAMPLE_RATE: '0.5' },
+      { serviceName: 'explicit', sampleContentRate: 1 },
+    );
+    expect(config.serviceName).toBe('explicit');
+    expect(config.captureContent).toBe(true);
+    expect(config.sampleContentRate).toBe(1);
+  });
+
+  it('rejects invalid values with the variable name', () => {
+    expect(() => configFromEnv({ EVAL2OTEL_CAPTURE_CONTENT: 'maybe' })).toThrow('Invalid EVAL2OTEL_CAPTURE_CONTENT');
+    expect(() => configFromEnv({ EVAL2OTEL_SAMPLE_CONTENT_RATE: '1.5' })).toThrow('expected a number between 0 and 1, got "1.5"');
+    expect(() => configFromEnv({ EVAL2OTEL_MAX_EVENTS_PER_SPAN: '-1' })).toThrow('non-negative integer');
+    expect(() => configFromEnv({ OTEL_EXPORTER_OTLP_PROTOCOL: 'udp' })).toThrow('expected one of grpc, http/protobuf, http/json');
+    expect(() => configFromEnv({ OTEL_EXPORTER_OTLP_HEADERS: 'novalue' })).toThrow('key=value');
+  });
+
+  it('names the variable and header for malformed %-escapes without echoing the value', () => {
+    const env = { OTEL_EXPORTER_OTLP_TRACES_HEADERS: 'x-team=evals,authorization=Bearer%2secret' };
+    expect(() => configFromEnv(env)).toThrow('Invalid OTEL_EXPORTER_OTLP_TRACES_HEADERS: header "authorization" has a malformed %-escape');
+    expect(() => configFromEnv(env)).not.toThrow(/secret/);
+  });
+
+  it('Eval2Otel.fromEnv builds an instance from the environment', () => {
+    const eval2otel = Eval2Otel.fromEnv({ useSdk: false }, { EVAL2OTEL_SERVICE_NAME: 'from-env', EVAL2OTEL_CAPTURE_CONTENT: '1' });
+    expect(eval2otel).toBeInstanceOf(Eval2Otel);
+    expect(() => Eval2Otel.fromEnv({}, { EVAL2OTEL_SAMPLE_CONTENT_RATE: 'abc' })).toThrow('EVAL2OTEL_SAMPLE_CONTENT_RATE');
+  });
+});
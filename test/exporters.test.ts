@@ -0,0 +1,55 @@
+import { OTLPTraceExporter as GrpcTraceExporter } from '@opentelemetry/exporter-trace-otlp-grpc';
+import { OTLPTraceExporter as HttpTraceExporter } from '@opentelemetry/exporter-trace-otlp-http';
+import { OTLPTraceExporter as ProtoTraceExporter } from '@opentelemetry/exporter-trace-otlp-proto';
+import {
+  createOtlpExporters,
+  hasExporterConfig,
+  resolveSignalEndpoint,
+  resolveSignalHeaders,
+} from '../src/exporters';
+
+describe('OTLP exporter construction', () => {
+  it('appends signal paths to the base HTTP endpoint', () => {
+    const config = { endpoint: 'http://collector:4318/' };
+    expect(resolveSignalEndpoint(config, 'traces')).toBe('http://collector:4318/v1/traces');
+    expect(resolveSignalEndpoint(config, 'metrics')).toBe('http://collector:4318/v1/metrics');
+    expect(resolveSignalEndpoint(config, 'logs')).toBe('http://collector:4318/v1/logs');
+  });
+
+  it('uses gRPC and signal-specific endpoints as-is', () => {
+    expect(resolveSignalEndpoint({ endpoint: 'http://collector:4317', exporterProtocol: 'grpc' }, 'traces'))
+      .toBe('http://collector:4317');
+    expect(resolveSignalEndpoint({ endpoint: 'http://a:4318', logsEndpoint: 'http://b/logs' }, 'logs'))
+      .toBe('http://b/logs');
+    expect(resolveSignalEndpoint({}, 'traces')).toBeUndefined();
+  });
+
+  it('prefers signal-specific headers over global headers', () => {
+    const config = { exporterHeaders: { a: '1' }, metricsHeaders: { m: '2' } };
+    expect(resolveSignalHeaders(config, 'metrics')).toEqual({ m: '2' });
+    expect(resolveSignalHeaders(config, 'traces')).toEqual({ a: '1' });
+    expect(resolveSignalHeaders({}, 'logs')).toBeUndefined();
+  });
+
+  it('detects whether any exporter option is configured', () => {
+    expect(hasExporterConfig({})).toBe(false);
+    expect(hasExporterConfig({ exporterHeaders: {} })).toBe(false);
+    expect(hasExporterConfig({ tracesHeaders: { a: 'b' } })).toBe(true);
+    expect(hasExporterConfig({ exporterProtocol: 'grpc' })).toBe(true);
+  });
+
+  it('selects exporter implementations by protocol', () => {
+    expect(createOtlpExporters({ exporterProtocol: 'grpc', exporterHeaders: { k: 'v' } }).traceExporter)
+      .toBeInstanceOf(GrpcTraceExporter);
+    expect(createOtlpExporters({ exporterProtocol: 'http/json' }).traceExporter).toBeInstanceOf(HttpTraceExporter);
+    expect(createOtlpExporters({ endpoint: 'http://collector:4318' }).traceExporter).toBeInstanceOf(ProtoTraceExporter);
+  });
+
+  it('builds independent exporters for side-by-side configurations', () => {
+    const before = { ...process.env };
+    const staging = createOtlpExporters({ endpoint: 'http://staging:4318' });
+    const prod = createOtlpExporters({ endpoint: 'http://prod:4318' });
+    expect(staging.traceExporter).not.toBe(prod.traceExporter);
+    expect(process.env).toEqual(before);
+  });
+});
@@ -0,0 +1,63 @@
+import { Eval2Otel } from '../src/index';
+import { DeterministicIdGenerator, deriveSpanId, deriveTraceId } from '../src/ids';
+import { createTestEval2Otel } from '../src/testing';
+import { EvalResult } from '../src/types';
+
+const makeEval = (id: string, runId?: string): EvalResult => ({
+  id, timestamp: 1700000000000, model: 'gpt-4o', system: 'openai', operation: 'chat',
+  request: { model: 'gpt-4o' }, response: {}, usage: {}, performance: { duration: 1 },
+  provenance: runId ? { runId, caseId: `case-${id}` } : undefined,
+} as EvalResult);
+
+describe('Deterministic trace and span ids', () => {
+  it('derives trace ids from the run and span ids from the eval id', async () => {
+    const harness = createTestEval2Otel({ deterministicIds: {} });
+    harness.eval2otel.processEvaluations([makeEval('c1', 'run-7'), makeEval('c2', 'run-7'), makeEval('solo')]);
+    const ids = harness.getSpans().map(span => span.spanContext());
+
+    expect(ids[0]).toMatchObject({ traceId: deriveTraceId('run-7'), spanId: deriveSpanId('c1') });
+    expect(ids[1]).toMatchObject({ traceId: deriveTraceId('run-7'), spanId: deriveSpanId('c2') });
+    expect(ids[2]).toMatchObject({ traceId: deriveTraceId('solo'), spanId: deriveSpanId('solo') });
+
+    harness.reset();
+    harness.eval2otel.processEvaluation(makeEval('c1', 'run-7'));
+    expect(harness.getSpans()[0].spanContext()).toMatchObject(ids[0]);
+    await harness.shutdown();
+  });
+
+  it('uses a configurable span id key and leaves child spans random', async () => {
+    const harness = createTestEval2Otel({ deterministicIds: { spanIdKey: r => r.provenance?.caseId } });
+    await harness.eval2otel.withSpan(makeEval('k1', 'run-1'), () => {
+      harness.tracerProvider.getTracer('test').startSpan('child').end();
+    });
+    const parent = harness.getSpans().find(span => span.name !== 'child')!;
+    const child = harness.getSpans().find(span => span.name === 'child')!;
+
+    expect(parent.spanContext().spanId).toBe(deriveSpanId('case-k1'));
+    expect(child.spanContext().spanId).not.toBe(deriveSpanId('case-k1'));
+    await harness.shutdown();
+  });
+
+  it('keeps random ids when disabled', async () => {
+    const harness = createTestEval2Otel();
+    harness.eval2otel.processEvaluation(makeEval('r1', 'run-1'));
+    expect(harness.getSpans()[0].spanContext().traceId).not.toBe(deriveTraceId('run-1'));
+    await harness.shutdown();
+  });
+
+  it('falls back to random ids outside withIds', () => {
+    const generator = new DeterministicIdGenerator();
+    const ids = generator.withIds({ traceId: deriveTraceId('x'), spanId: deriveSpanId('x') }, () => [
+      generator.generateTraceId(), generator.generateSpanId(), generator.generateSpanId(),
+    ]);
+    expect(ids[0]).toBe(deriveTraceId('x'));
+    expect(ids[1]).toBe(deriveSpanId('x'));
+    expect(ids[2]).not.toBe(deriveSpanId('x'));
+    expect(generator.generateSpanId()).toMatch(/^[0-9a-f]{16}$/);
+  });
+
+  it('warns when the generator cannot reach a supplied provider', () => {
+    const eval2otel = new Eval2Otel({ serviceName: 'svc', useSdk: false, deterministicIds: {} });
+    expect(eval2otel.getConfigWarnings().map(w => w.code)).toContain('config.deterministic_ids_unwired');
+  });
+});
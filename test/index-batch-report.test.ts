@@ -0,0 +1,42 @@
+import { buildBatchConversionReport } from '../src/contract';
+import { Eval2Otel } from '../src/index';
+import { ConversionReport, EvalResult } from '../src/types';
+
+const makeEval = (id: string, warnings: EvalResult['evidence'] = undefined): EvalResult => ({
+  id, timestamp: Date.now(), model: 'm', system: 'openai', operation: 'chat',
+  request: { model: 'm' }, response: {}, usage: {}, performance: { duration: 1 },
+  evidence: warnings,
+} as EvalResult);
+
+describe('Batch conversion reports', () => {
+  it('processEvaluations aggregates per-item reports', () => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    const eval2otel = new Eval2Otel({ serviceName: 'svc', useSdk: false, onError: 'log' });
+    const batch = eval2otel.processEvaluations([
+      makeEval('b1', { warnings: [{ code: 'provider.unsupported', message: 'x' }] }),
+      makeEval('b2'),
+      { id: 'b3' } as unknown as EvalResult,
+    ]);
+
+    expect(batch.total).toBe(3);
+    expect(batch.successCount).toBe(2);
+    expect(batch.failureCount).toBe(1);
+    expect(batch.reports.map(r => r.evalId)).toEqual(['b1', 'b2', 'b3']);
+    expect(batch.warningCount).toBe(2);
+    expect(Object.keys(batch.warningsByCode).sort()).toEqual(['conversion.failed', 'provider.unsupported']);
+    expect(batch.durationMs).toBeGreaterThanOrEqual(0);
+  });
+
+  it('sums content counters across reports', () => {
+    const report = (overrides: Partial<ConversionReport>): ConversionReport => ({
+      evalId: 'r', success: true, contractVersion: 'eval2otel.v1', semconvVersion: 'unspecified',
+      eventCount: 0, droppedEventCount: 0, redactedContentCount: 0, truncatedContentCount: 0,
+      warningCount: 0, warnings: [], durationMs: 0, ...overrides,
+    });
+    const batch = buildBatchConversionReport([
+      report({ droppedEventCount: 2, redactedContentCount: 1 }),
+      report({ droppedEventCount: 1, truncatedContentCount: 3 }),
+    ], 12);
+    expect(batch).toMatchObject({ droppedEventCount: 3, redactedContentCount: 1, truncatedContentCount: 3, warningsByCode: {}, durationMs: 12 });
+  });
+});
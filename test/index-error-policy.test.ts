@@ -0,0 +1,58 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { readDeadLetters } from '../src/dead-letter';
+import { Eval2Otel } from '../src/index';
+import { EvalResult, FailedEvaluation } from '../src/types';
+
+const valid = {
+  id: 'ok-1', timestamp: Date.now(), model: 'm', system: 'openai', operation: 'chat',
+  request: { model: 'm' }, response: {}, usage: {}, performance: { duration: 1 },
+} as EvalResult;
+const invalid = { id: 'bad-1', model: 'm' } as unknown as EvalResult;
+
+describe('Eval2Otel error policy', () => {
+  let logSpy: jest.SpyInstance;
+  beforeEach(() => { logSpy = jest.spyOn(console, 'error').mockImplementation(() => {}); });
+  afterEach(() => logSpy.mockRestore());
+
+  it('log keeps a batch going and reports the failure', () => {
+    const eval2otel = new Eval2Otel({ serviceName: 'svc', useSdk: false, onError: 'log' });
+    const spy = jest.spyOn(eval2otel.getConverter(), 'convertEvalResult');
+    expect(() => eval2otel.processEvaluations([invalid, valid])).not.toThrow();
+    expect(spy).toHaveBeenCalledTimes(2);
+    expect(logSpy).toHaveBeenCalledWith('Error processing evaluation:', expect.anything());
+  });
+
+  it('skip continues silently', () => {
+    const eval2otel = new Eval2Otel({ serviceName: 'svc', useSdk: false, onError: 'skip' });
+    expect(() => eval2otel.processEvaluation(invalid)).not.toThrow();
+    expect(logSpy).not.toHaveBeenCalled();
+  });
+
+  it('passes the failure to a custom callback', () => {
+    const failures: FailedEvaluation[] = [];
+    const eval2otel = new Eval2Otel({ serviceName: 'svc', useSdk: false, onError: f => failures.push(f) });
+    eval2otel.processEvaluation(invalid);
+    expect(failures).toHaveLength(1);
+    expect(failures[0].input).toBe(invalid);
+    expect(failures[0].issues?.length).toBeGreaterThan(0);
+    expect(failures[0].report).toMatchObject({ evalId: 'bad-1', success: false, errorType: 'ZodError' });
+  });
+
+  it('writes rejected inputs to a dead-letter JSONL file', () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'eval2otel-dlq-'));
+    const file = path.join(dir, 'nested', 'dead.jsonl');
+    const eval2otel = new Eval2Otel({ serviceName: 'svc', useSdk: false, deadLetter: { path: file } });
+
+    expect(() => eval2otel.processEvaluation(invalid)).toThrow();
+    eval2otel.processEvaluation(valid);
+
+    const records = readDeadLetters(file);
+    expect(records).toHaveLength(1);
+    expect(records[0].input).toEqual(invalid);
+    expect(records[0].issues?.map(i => i.path[0])).toContain('timestamp');
+    expect(records[0].report.warnings[0].code).toBe('conversion.failed');
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+});
@@ -0,0 +1,123 @@
+import { trace } from '@opentelemetry/api';
+import { Eval2Otel } from '../src/index';
+import { BoundedQueue } from '../src/queue';
+import { EvalResult } from '../src/types';
+
+const makeEval = (id: string): EvalResult => ({
+  id, timestamp: Date.now(), model: 'm', system: 'openai', operation: 'chat',
+  request: { model: 'm' }, response: {}, usage: {}, performance: { duration: 1 },
+} as any);
+
+describe('BoundedQueue', () => {
+  it('processes items asynchronously up to the configured concurrency', async () => {
+    let active = 0;
+    let peak = 0;
+    const seen: number[] = [];
+    const queue = new BoundedQueue<number>(async (n) => {
+      active++;
+      peak = Math.max(peak, active);
+      await new Promise(resolve => setTimeout(resolve, 5));
+      seen.push(n);
+      active--;
+    }, { concurrency: 2 });
+
+    const results = [1, 2, 3, 4].map(n => queue.push(n));
+    expect(seen).toEqual([]);
+    await Promise.all(results.map(r => r.done));
+    expect(seen.sort()).toEqual([1, 2, 3, 4]);
+    expect(peak).toBe(2);
+    expect(queue.stats()).toEqual({ size: 0, inFlight: 0, processed: 4, dropped: 0 });
+  });
+
+  it('drop-newest rejects arrivals while the buffer is full', async () => {
+    let release!: () => void;
+    const gate = new Promise<void>(resolve => { release = resolve; });
+    const queue = new BoundedQueue<number>(() => gate, { maxSize: 1, overflow: 'drop-newest' });
+
+    const first = queue.push(1); // starts immediately
+    const second = queue.push(2); // buffered
+    const third = queue.push(3); // dropped
+    expect(await first.accepted).toBe(true);
+    expect(await second.accepted).toBe(true);
+    expect(await third.accepted).toBe(false);
+    await expect(third.done).rejects.toThrow('queue is full');
+
+    release();
+    await queue.onIdle();
+    expect(queue.stats().dropped).toBe(1);
+  });
+
+  it('drop-oldest evicts the oldest buffered item', async () => {
+    let release!: () => void;
+    const gate = new Promise<void>(resolve => { release = resolve; });
+    const handled: number[] = [];
+    const queue = new BoundedQueue<number>(async (n) => { await gate; handled.push(n); }, { maxSize: 1, overflow: 'drop-oldest' });
+
+    queue.push(1);
+    const second = queue.push(2);
+    const third = queue.push(3);
+    expect(await third.accepted).toBe(true);
+    await expect(second.done).rejects.toThrow('queue is full');
+
+    release();
+    await queue.onIdle();
+    expect(handled).toEqual([1, 3]);
+  });
+
+  it('block waits for buffer space before accepting', async () => {
+    let release!: () => void;
+    const gate = new Promise<void>(resolve => { release = resolve; });
+    const queue = new BoundedQueue<number>(() => gate, { maxSize: 1, overflow: 'block' });
+
+    queue.push(1);
+    queue.push(2);
+    let acceptedThird = false;
+    const third = queue.push(3);
+    void third.accepted.then(() => { acceptedThird = true; });
+    await new Promise(resolve => setImmediate(resolve));
+    expect(acceptedThird).toBe(false);
+
+    release();
+    expect(await third.accepted).toBe(true);
+    await queue.onIdle();
+    expect(queue.stats().processed).toBe(3);
+  });
+});
+
+describe('Eval2Otel async processing', () => {
+  it('processEvaluationAsync converts through the queue', async () => {
+    const eval2otel = new Eval2Otel({ serviceName: 'svc', useSdk: false });
+    const spy = jest.spyOn(eval2otel.getConverter(), 'convertEvalResult');
+    const pending = eval2otel.processEvaluationAsync(makeEval('a1'));
+    expect(spy).not.toHaveBeenCalled();
+    await pending;
+    expect(spy).toHaveBeenCalledTimes(1);
+  });
+
+  it('processEvaluationAsync rejects on invalid input while enqueue swallows it', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    const eval2otel = new Eval2Otel({ serviceName: 'svc', useSdk: false });
+    await expect(eval2otel.processEvaluationAsync({} as any)).rejects.toThrow();
+    expect(await eval2otel.enqueue({} as any)).toBe(true);
+    await eval2otel.flush();
+    expect(eval2otel.getQueueStats().processed).toBe(2);
+  });
+
+  it('flush drains the queue and force-flushes registered providers', async () => {
+    const forceFlush = jest.fn().mockResolvedValue(undefined);
+    jest.spyOn(trace, 'getTracerProvider').mockReturnValue({
+      getTracer: jest.fn(),
+      getDelegate: () => ({ forceFlush }),
+    } as any);
+    const eval2otel = new Eval2Otel({ serviceName: 'svc', useSdk: false });
+    const spy = jest.spyOn(eval2otel.getConverter(), 'convertEvalResult');
+
+    await eval2otel.enqueue(makeEval('f1'));
+    await eval2otel.enqueue(makeEval('f2'));
+    await eval2otel.flush();
+
+    expect(spy).toHaveBeenCalledTimes(2);
+    expect(forceFlush).toHaveBeenCalledTimes(1);
+    expect(eval2otel.getQueueStats()).toEqual({ size: 0, inFlight: 0, processed: 2, dropped: 0 });
+  });
+});
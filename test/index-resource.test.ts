@@ -13,7 +13,7 @@ describe('Resource precedence and env', () => {
     delete process.env.OTEL_SERVICE_NAME;
   });
 
-  it('uses OTEL_SERVICE_NAME over config.serviceName and sets env headers', () => {
+  it('uses OTEL_SERVICE_NAME over config.serviceName without writing env headers', () => {
     const startMock = jest.fn();
     const constructed: any[] = [];
     // @ts-ignore
@@ -23,7 +23,8 @@ describe('Resource precedence and env', () => {
     const cfg = constructed[0];
     const resourceAttrs = (cfg.resource as any).attributes || (cfg.resource as any)._attributes || {};
     expect(resourceAttrs[SemanticResourceAttributes.SERVICE_NAME]).toBe('env-svc');
-    expect(process.env.OTEL_EXPORTER_OTLP_TRACES_HEADERS).toContain('a=b');
+    expect(process.env.OTEL_EXPORTER_OTLP_TRACES_HEADERS).toBeUndefined();
+    expect(cfg.spanProcessors).toHaveLength(1);
   });
 });
 
@@ -0,0 +1,102 @@
+import { SpanStatusCode, trace } from '@opentelemetry/api';
+import { node, tracing } from '@opentelemetry/sdk-node';
+import { Eval2Otel } from '../src/index';
+import { EvalResult } from '../src/types';
+
+describe('Eval2Otel.withSpan', () => {
+  const exporter = new tracing.InMemorySpanExporter();
+  const provider = new node.NodeTracerProvider({
+    spanProcessors: [new tracing.SimpleSpanProcessor(exporter)],
+  });
+  provider.register();
+
+  const base: EvalResult = {
+    id: 'ws1', timestamp: Date.now(), model: 'gpt-4', system: 'openai', operation: 'execute_tool',
+    request: { model: 'gpt-4' }, response: {}, usage: {}, performance: { duration: 1 },
+    tool: { name: 'search' },
+  } as any;
+
+  afterEach(() => exporter.reset());
+  afterAll(() => provider.shutdown());
+
+  it('makes the eval span active so work inside fn becomes a child', async () => {
+    const eval2otel = new Eval2Otel({ serviceName: 'svc', useSdk: false });
+    const result = await eval2otel.withSpan(base, async () => {
+      const child = trace.getTracer('test').startSpan('http.get');
+      await new Promise(resolve => setTimeout(resolve, 20));
+      child.end();
+      return 'ok';
+    });
+
+    expect(result).toBe('ok');
+    const spans = exporter.getFinishedSpans();
+    const evalSpan = spans.find(s => s.name === 'gen_ai.execute_tool')!;
+    const child = spans.find(s => s.name === 'http.get')!;
+    expect(evalSpan).toBeDefined();
+    expect(child.parentSpanContext?.spanId).toBe(evalSpan.spanContext().spanId);
+    expect(child.spanContext().traceId).toBe(evalSpan.spanContext().traceId);
+    expect(evalSpan.attributes['gen_ai.tool.name']).toBe('search');
+    expect(evalSpan.attributes['evalops.eval.id']).toBe('ws1');
+    expect(evalSpan.status.code).toBe(SpanStatusCode.OK);
+
+    const elapsedMs = evalSpan.duration[0] * 1000 + evalSpan.duration[1] / 1e6;
+    expect(elapsedMs).toBeGreaterThanOrEqual(15);
+    expect(elapsedMs).toBeLessThan(1000);
+  });
+
+  it('records thrown errors as exceptions and rethrows', async () => {
+    const eval2otel = new Eval2Otel({ serviceName: 'svc', useSdk: false });
+    await expect(eval2otel.withSpan(base, () => {
+      throw new TypeError('tool exploded');
+    })).rejects.toThrow('tool exploded');
+
+    const [span] = exporter.getFinishedSpans();
+    expect(span.status.code).toBe(SpanStatusCode.ERROR);
+    expect(span.status.message).toBe('tool exploded');
+    expect(span.attributes['error.type']).toBe('TypeError');
+    expect(span.events.some(e => e.name === 'exception')).toBe(true);
+  });
+
+  it('rejects invalid eval results before running fn', async () => {
+    const eval2otel = new Eval2Otel({ serviceName: 'svc', useSdk: false });
+    const fn = jest.fn();
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    await expect(eval2otel.withSpan({} as any, fn)).rejects.toThrow();
+    expect(fn).not.toHaveBeenCalled();
+    expect(exporter.getFinishedSpans()).toHaveLength(0);
+  });
+
+  it('ends the span and keeps the error from fn when recording it fails', async () => {
+    const eval2otel = new Eval2Otel({ serviceName: 'svc', useSdk: false });
+    eval2otel.use({ afterConvert: () => { throw new Error('processor broke'); } });
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    await expect(eval2otel.withSpan(base, () => {
+      throw new TypeError('tool exploded');
+    })).rejects.toThrow('tool exploded');
+    await expect(eval2otel.withSpan(base, async () => 'ok')).rejects.toThrow('processor broke');
+    expect(exporter.getFinishedSpans()).toHaveLength(2);
+  });
+
+  it('runs fn untraced for invalid results under a non-throwing onError policy', async () => {
+    const onError = jest.fn();
+    const eval2otel = new Eval2Otel({ serviceName: 'svc', useSdk: false, onError });
+    await expect(eval2otel.withSpan({} as any, async () => 'ran')).resolves.toBe('ran');
+    expect(onError).toHaveBeenCalledTimes(1);
+    expect(exporter.getFinishedSpans()).toHaveLength(0);
+  });
+
+  it('applies spanSampling and links conversation turns', async () => {
+    const sampled = new Eval2Otel({ serviceName: 'svc', useSdk: false, spanSampling: { passRate: 0 } });
+    await expect(sampled.withSpan(base, async () => 'ok')).resolves.toBe('ok');
+    expect(exporter.getFinishedSpans()).toHaveLength(0);
+
+    const tracked = new Eval2Otel({ serviceName: 'svc', useSdk: false, conversationTracking: {} });
+    const turn = (id: string): EvalResult => ({ ...base, id, conversation: { id: 'conv', messages: [] } });
+    await tracked.withSpan(turn('t0'), () => undefined);
+    await tracked.withSpan(turn('t1'), () => undefined);
+    const [first, second] = exporter.getFinishedSpans();
+    expect(second.attributes['gen_ai.conversation.turn_index']).toBe(1);
+    expect(second.links[0].context.spanId).toBe(first.spanContext().spanId);
+  });
+});
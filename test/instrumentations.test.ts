@@ -0,0 +1,52 @@
+import { HttpInstrumentation } from '@opentelemetry/instrumentation-http';
+import { UndiciInstrumentation } from '@opentelemetry/instrumentation-undici';
+import * as sdkNode from '@opentelemetry/sdk-node';
+import * as auto from '@opentelemetry/auto-instrumentations-node';
+import { createEval2Otel } from '../src/index';
+import { resolveInstrumentations } from '../src/instrumentations';
+
+jest.mock('@opentelemetry/sdk-node');
+jest.mock('@opentelemetry/auto-instrumentations-node');
+jest.mock('@opentelemetry/instrumentation-http');
+jest.mock('@opentelemetry/instrumentation-undici');
+
+describe('Instrumentation selection', () => {
+  const getAuto = auto.getNodeAutoInstrumentations as jest.Mock;
+
+  beforeEach(() => {
+    getAuto.mockReset().mockReturnValue(['auto']);
+  });
+
+  it('registers everything by default', () => {
+    expect(resolveInstrumentations()).toEqual([['auto']]);
+    expect(getAuto).toHaveBeenCalledWith();
+  });
+
+  it('registers nothing for the none preset', () => {
+    expect(resolveInstrumentations('none')).toEqual([]);
+    expect(getAuto).not.toHaveBeenCalled();
+  });
+
+  it('registers only outbound HTTP instrumentations for http-only', () => {
+    const result = resolveInstrumentations('http-only');
+    expect(result).toHaveLength(2);
+    expect(result[0]).toBeInstanceOf(HttpInstrumentation);
+    expect(result[1]).toBeInstanceOf(UndiciInstrumentation);
+    expect(getAuto).not.toHaveBeenCalled();
+  });
+
+  it('passes explicit lists through and config maps to the auto loader', () => {
+    const custom = [{ instrumentationName: 'custom' }] as any;
+    expect(resolveInstrumentations(custom)).toBe(custom);
+    const map = { '@opentelemetry/instrumentation-fs': { enabled: false } };
+    resolveInstrumentations(map);
+    expect(getAuto).toHaveBeenCalledWith(map);
+  });
+
+  it('initialize hands the resolved set to NodeSDK', () => {
+    const constructed: any[] = [];
+    (sdkNode as any).NodeSDK.mockImplementation((cfg: any) => { constructed.push(cfg); return { start: jest.fn() }; });
+    createEval2Otel({ serviceName: 'svc', instrumentations: 'none' });
+    expect(constructed[0].instrumentations).toEqual([]);
+  });
+});
@@ -0,0 +1,100 @@
+import { createTestEval2Otel } from '../src/testing';
+import { EvalResult } from '../src/types';
+
+const makeEval = (): EvalResult => ({
+  id: 'msg-1', timestamp: Date.now(), model: 'gpt-4o', system: 'openai', operation: 'chat',
+  request: { model: 'gpt-4o' },
+  response: {
+    choices: [{
+      index: 0, finishReason: 'tool_calls',
+      message: {
+        role: 'assistant', content: 'checking the weather',
+        toolCalls: [{ id: 'call-2', type: 'function', function: { name: 'get_weather', arguments: { city: 'Paris', apiKey: 'sk-live-1' } } }],
+      },
+    }],
+  },
+  usage: {}, performance: { duration: 1 },
+  conversation: {
+    id: 'c',
+    messages: [
+      { role: 'system', content: 'You are terse.' },
+      { role: 'user', content: [{ type: 'text', text: 'weather in Paris?' }, { type: 'image', mimeType: 'image/png', uri: 'https://example.com/map.png' }] },
+      { role: 'assistant', toolCalls: [{ id: 'call-1', type: 'function', function: { name: 'lookup', arguments: { q: 'Paris' } } }] },
+      { role: 'tool', toolCallId: 'call-1', content: 'Paris, FR' },
+    ],
+  },
+});
+
+const parse = (span: ReturnType<ReturnType<typeof createTestEval2Otel>['expectSpan']>['span'], key: string): unknown =>
+  JSON.parse(span.attributes[key] as string);
+
+describe('messageFormat', () => {
+  it('serializes the conversation and choices as structured message attributes', async () => {
+    const harness = createTestEval2Otel({ captureContent: true, messageFormat: 'attributes' });
+    harness.eval2otel.processEvaluation(makeEval());
+
+    const span = harness.expectSpan('msg-1').span;
+    expect(span.events.filter(event => event.name.endsWith('.message'))).toHaveLength(0);
+    expect(parse(span, 'gen_ai.system_instructions')).toEqual([{ type: 'text', content: 'You are terse.' }]);
+    expect(parse(span, 'gen_ai.input.messages')).toEqual([
+      { role: 'user', parts: [
+        { type: 'text', content: 'weather in Paris?' },
+        { type: 'uri', modality: 'image', uri: 'https://example.com/map.png', mime_type: 'image/png' },
+      ] },
+      { role: 'assistant', parts: [{ type: 'tool_call', id: 'call-1', name: 'lookup', arguments: '{"q":"Paris"}' }] },
+      { role: 'tool', parts: [{ type: 'tool_call_response', id: 'call-1', response: 'Paris, FR' }] },
+    ]);
+    expect(parse(span, 'gen_ai.output.messages')).toEqual([{
+      role: 'assistant',
+      parts: [
+        { type: 'text', content: 'checking the weather' },
+        { type: 'tool_call', id: 'call-2', name: 'get_weather', arguments: '{"city":"Paris","apiKey":"sk-live-1"}' },
+      ],
+      finish_reason: 'tool_calls',
+    }]);
+    await harness.shutdown();
+  });
+
+  it('applies redaction hooks and contentMaxLength and counts them', async () => {
+    const config = {
+      captureContent: true,
+      contentMaxLength: 10,
+      redactMessageContent: (content: string, { role }: { role: string }) => (role === 'system' ? null : content),
+      redactToolArguments: (args: string) => args.replace(/sk-live-\d+/, '[REDACTED]'),
+    };
+    const harness = createTestEval2Otel({ ...config, messageFormat: 'both' });
+    harness.eval2otel.processEvaluation(makeEval());
+
+    // The system message and the choice's tool arguments, counted once across both formats
+    const span = harness.expectSpan('msg-1')
+      .toHaveAttribute('evalops.redacted_content_count', 2)
+      .span;
+    expect(span.events.some(event => event.name === 'gen_ai.user.message')).toBe(true);
+    expect(span.attributes['gen_ai.system_instructions']).toBeUndefined();
+    const [output] = parse(span, 'gen_ai.output.messages') as Array<{ parts: Array<Record<string, unknown>> }>;
+    expect(output.parts).toEqual([
+      { type: 'text', content: 'checking t' },
+      { type: 'tool_call', id: 'call-2', name: 'get_weather', arguments: '{"city":"P' },
+    ]);
+    await harness.shutdown();
+
+    const eventsOnly = createTestEval2Otel(config);
+    eventsOnly.eval2otel.processEvaluation(makeEval());
+    const truncated = eventsOnly.expectSpan('msg-1').span.attributes['evalops.truncated_content_count'];
+    expect(truncated).toBeGreaterThan(0);
+    expect(span.attributes['evalops.truncated_content_count']).toBe(truncated);
+    await eventsOnly.shutdown();
+  });
+
+  it('emits no structured attributes without content capture or in the default events format', async () => {
+    const disabled = createTestEval2Otel({ captureContent: false, messageFormat: 'attributes' });
+    disabled.eval2otel.processEvaluation(makeEval());
+    expect(disabled.expectSpan('msg-1').span.attributes['gen_ai.input.messages']).toBeUndefined();
+    await disabled.shutdown();
+
+    const events = createTestEval2Otel({ captureContent: true });
+    events.eval2otel.processEvaluation(makeEval());
+    expect(events.expectSpan('msg-1').span.attributes['gen_ai.output.messages']).toBeUndefined();
+    await events.shutdown();
+  });
+});
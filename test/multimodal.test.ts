@@ -0,0 +1,144 @@
+import { createHash } from 'crypto';
+import { convertAnthropicToEval2Otel, convertOpenAIChatToEval2Otel } from '../src/providers';
+import { createTestEval2Otel } from '../src/testing';
+import { ContentPart, EvalResult } from '../src/types';
+
+const pngBytes = Buffer.from('fake-png-bytes');
+const pngBase64 = pngBytes.toString('base64');
+
+const makeEval = (content: ContentPart[]): EvalResult => ({
+  id: 'mm-1', timestamp: Date.now(), model: 'gpt-4o', system: 'openai', operation: 'chat',
+  request: { model: 'gpt-4o' },
+  response: { choices: [{ index: 0, finishReason: 'stop', message: { role: 'assistant', content: [{ type: 'text', text: 'a cat' }] } }] },
+  usage: {}, performance: { duration: 1 },
+  conversation: { id: 'c', messages: [{ role: 'user', content }] },
+});
+
+const partEvents = (harness: ReturnType<typeof createTestEval2Otel>) =>
+  harness.expectSpan('mm-1').span.events.filter(event => event.name === 'gen_ai.message.part');
+
+describe('multimodal content parts', () => {
+  it('emits text parts as message content and other parts as metadata events', async () => {
+    const harness = createTestEval2Otel({ captureContent: true, contentMaxLength: 12, markTruncatedContent: true });
+    harness.eval2otel.processEvaluation(makeEval([
+      { type: 'text', text: 'describe this' },
+      { type: 'image', mimeType: 'image/png', byteSize: 1024, width: 64, height: 32, sha256: 'abc', uri: 'https://example.com/cat.png' },
+      { type: 'text', text: 'please' },
+    ]));
+
+    const span = harness.expectSpan('mm-1').span;
+    const user = span.events.find(event => event.name === 'gen_ai.user.message')!;
+    expect(user.attributes).toMatchObject({
+      'gen_ai.message.content': 'describe thi',
+      'gen_ai.message.content_type': 'parts',
+      'gen_ai.message.content_truncated': true,
+      'gen_ai.message.part_count': 3,
+    });
+    expect(span.events.find(event => event.name === 'gen_ai.assistant.message')?.attributes?.['gen_ai.message.content']).toBe('a cat');
+
+    const [image] = partEvents(harness);
+    expect(image.attributes).toMatchObject({
+      'gen_ai.message.role': 'user',
+      'gen_ai.message.index': 0,
+      'gen_ai.message.part.index': 1,
+      'gen_ai.message.part.type': 'image',
+      'gen_ai.message.part.mime_type': 'image/png',
+      'gen_ai.message.part.byte_size': 1024,
+      'gen_ai.message.part.width': 64,
+      'gen_ai.message.part.height': 32,
+      'gen_ai.message.part.sha256': 'abc',
+      'gen_ai.message.part.uri': 'https://exam',
+    });
+    await harness.shutdown();
+  });
+
+  it('applies message redaction to text and URIs but keeps part metadata, and never emits data URIs', async () => {
+    const harness = createTestEval2Otel({ captureContent: true, redactMessageContent: () => null });
+    harness.eval2otel.processEvaluation(makeEval([
+      { type: 'text', text: 'secret' },
+      { type: 'image', mimeType: 'image/png', uri: 'https://example.com/cat.png' },
+    ]));
+    const user = harness.expectSpan('mm-1').span.events.find(event => event.name === 'gen_ai.user.message')!;
+    expect(user.attributes?.['gen_ai.message.content']).toBeUndefined();
+    expect(user.attributes?.['evalops.content_sha256']).toBe(createHash('sha256').update('secret').digest('hex'));
+    expect(partEvents(harness)[0].attributes?.['gen_ai.message.part.uri']).toBeUndefined();
+    expect(partEvents(harness)[0].attributes?.['gen_ai.message.part.mime_type']).toBe('image/png');
+    await harness.shutdown();
+
+    const capturing = createTestEval2Otel({ captureContent: true });
+    capturing.eval2otel.processEvaluation(makeEval([{ type: 'image', uri: `data:image/png;base64,${pngBase64}` }]));
+    expect(partEvents(capturing)[0].attributes?.['gen_ai.message.part.uri']).toBeUndefined();
+    await capturing.shutdown();
+
+    const disabled = createTestEval2Otel({ captureContent: false });
+    disabled.eval2otel.processEvaluation(makeEval([{ type: 'image', mimeType: 'image/png' }]));
+    expect(partEvents(disabled)).toHaveLength(0);
+    await disabled.shutdown();
+  });
+
+  it('maps OpenAI and Anthropic image, audio and file parts without keeping the bytes', () => {
+    const sha256 = createHash('sha256').update(pngBytes).digest('hex');
+    const openai = convertOpenAIChatToEval2Otel({
+      model: 'gpt-4o',
+      messages: [
+        { role: 'system', content: [{ type: 'text', text: 'be brief' }] },
+        { role: 'user', content: [
+          { type: 'text', text: 'what is this?' },
+          { type: 'image_url', image_url: { url: `data:image/png;base64,${pngBase64}` } },
+          { type: 'image_url', image_url: { url: 'https://example.com/cat.png' } },
+          { type: 'input_audio', input_audio: { data: pngBase64, format: 'wav' } } as never,
+        ] },
+      ],
+    }, { id: 'r', object: 'chat.completion', created: 0, model: 'gpt-4o', choices: [] }, 0, 1000);
+
+    const [system, user] = openai.conversation!.messages;
+    expect(system.content).toBe('be brief');
+    expect(user.content).toEqual([
+      { type: 'text', text: 'what is this?' },
+      { type: 'image', mimeType: 'image/png', byteSize: pngBytes.length, sha256 },
+      { type: 'image', uri: 'https://example.com/cat.png' },
+      { type: 'audio', mimeType: 'audio/wav', byteSize: pngBytes.length, sha256 },
+    ]);
+    expect(JSON.stringify(openai)).not.toContain(pngBase64);
+    expect(openai.provider?.attributes?.['openai.request.has_images']).toBe(true);
+
+    const anthropic = convertAnthropicToEval2Otel({
+      model: 'claude',
+      messages: [{ role: 'user', content: [
+        { type: 'text', text: 'and this?' },
+        { type: 'image', source: { type: 'base64', media_type: 'image/png', data: pngBase64 } } as never,
+      ] }],
+    }, { id: 'm', model: 'claude', content: [{ type: 'text', text: 'a cat' }] } as never, 0, 1000);
+    expect(anthropic.conversation!.messages[0].content).toEqual([
+      { type: 'text', text: 'and this?' },
+      { type: 'image', mimeType: 'image/png', byteSize: pngBytes.length, sha256 },
+    ]);
+  });
+
+  it('hashes bare base64 file_data instead of inlining it, and tolerates malformed data URIs', async () => {
+    const openai = convertOpenAIChatToEval2Otel({
+      model: 'gpt-4o',
+      messages: [{ role: 'user', content: [
+        { type: 'text', text: 'summarize' },
+        { type: 'file', file: { filename: 'report.pdf', file_data: pngBase64 } } as never,
+        { type: 'image_url', image_url: { url: 'data:image/svg+xml,%E0%A4%A' } },
+      ] }],
+    }, { id: 'r', object: 'chat.completion', created: 0, model: 'gpt-4o', choices: [] }, 0, 1000);
+
+    const [, file, svg] = openai.conversation!.messages[0].content as ContentPart[];
+    expect(file).toEqual({
+      type: 'file', filename: 'report.pdf', byteSize: pngBytes.length,
+      sha256: createHash('sha256').update(pngBytes).digest('hex'),
+    });
+    expect(svg).toMatchObject({ type: 'image', mimeType: 'image/svg+xml' });
+    expect(JSON.stringify(openai)).not.toContain(pngBase64);
+
+    const harness = createTestEval2Otel({ captureContent: true, messageFormat: 'both' });
+    harness.eval2otel.processEvaluation({ ...openai, id: 'mm-1' });
+    harness.eval2otel.processEvaluation({ ...makeEval([{ type: 'file', uri: pngBase64 }]), id: 'mm-2' });
+    expect(partEvents(harness)[0].attributes?.['gen_ai.message.part.filename']).toBe('report.pdf');
+    const spans = [harness.expectSpan('mm-1').span, harness.expectSpan('mm-2').span];
+    expect(JSON.stringify(spans.map(span => [span.attributes, span.events]))).not.toContain(pngBase64);
+    await harness.shutdown();
+  });
+});
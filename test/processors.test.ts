@@ -0,0 +1,109 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { tracing } from '@opentelemetry/sdk-node';
+import { Eval2OtelConverter } from '../src/converter';
+import { readDeadLetters } from '../src/dead-letter';
+import { Eval2Otel } from '../src/index';
+import { applyBeforeConvert, loadProcessorModule } from '../src/processors';
+import { EvalProcessor, EvalResult, FailedEvaluation } from '../src/types';
+
+const makeEval = (id: string, model = 'gpt-4'): EvalResult => ({
+  id, timestamp: Date.now(), model, system: 'openai', operation: 'chat',
+  request: { model }, response: {}, usage: {}, performance: { duration: 1 },
+} as EvalResult);
+
+describe('Processor pipeline', () => {
+  it('applies beforeConvert hooks in order with mutate, veto and split', () => {
+    const processors: EvalProcessor[] = [
+      { beforeConvert: (r) => { r.model = r.model.toLowerCase(); } },
+      { beforeConvert: r => (r.model === 'test-model' ? null : r) },
+      { beforeConvert: r => [r, { ...r, id: `${r.id}-copy` }] },
+    ];
+    expect(applyBeforeConvert(processors, makeEval('p1', 'GPT-4')).map(r => `${r.id}:${r.model}`))
+      .toEqual(['p1:gpt-4', 'p1-copy:gpt-4']);
+    expect(applyBeforeConvert(processors, makeEval('p2', 'TEST-MODEL'))).toEqual([]);
+  });
+
+  it('Eval2Otel runs processors around conversion and metrics', () => {
+    const eval2otel = new Eval2Otel({
+      serviceName: 'svc',
+      useSdk: false,
+      processors: [{ name: 'drop-test', beforeConvert: r => (r.model === 'test' ? null : undefined) }],
+    });
+    eval2otel.use({ beforeRecordMetrics: () => false });
+    const convert = jest.spyOn(eval2otel.getConverter(), 'convertEvalResult');
+    const recordMetrics = jest.spyOn((eval2otel as any).metrics, 'recordMetrics');
+
+    const batch = eval2otel.processEvaluations([makeEval('keep'), makeEval('drop', 'test')]);
+
+    expect(convert).toHaveBeenCalledTimes(1);
+    expect(convert.mock.calls[0][0].id).toBe('keep');
+    expect(recordMetrics).not.toHaveBeenCalled();
+    expect(batch.total).toBe(1);
+  });
+
+  it('afterConvert sees the populated span before it ends', () => {
+    const exporter = new tracing.InMemorySpanExporter();
+    const provider = new tracing.BasicTracerProvider({ spanProcessors: [new tracing.SimpleSpanProcessor(exporter)] });
+    const converter = new Eval2OtelConverter({ serviceName: 'svc' }, provider.getTracer('test'));
+    converter.addAfterConvertHook((span, report) => span.setAttribute('team', `evals:${report.evalId}`));
+
+    converter.convertEvalResult(makeEval('a1'));
+
+    expect(exporter.getFinishedSpans()[0].attributes['team']).toBe('evals:a1');
+  });
+
+  it('treats a throwing processor as a conversion failure', () => {
+    const failures: unknown[] = [];
+    const eval2otel = new Eval2Otel({
+      serviceName: 'svc',
+      useSdk: false,
+      onError: f => failures.push(f.error),
+      processors: [{ beforeConvert: () => { throw new Error('enrich failed'); } }],
+    });
+    const [report] = eval2otel.processEvaluation(makeEval('t1'));
+    expect(report.success).toBe(false);
+    expect((failures[0] as Error).message).toBe('enrich failed');
+  });
+
+  it('dead-letters the input as passed in when a rewritten result fails conversion', () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'eval2otel-proc-'));
+    const file = path.join(dir, 'dead.jsonl');
+    const failures: FailedEvaluation[] = [];
+    const eval2otel = new Eval2Otel({
+      serviceName: 'svc',
+      useSdk: false,
+      onError: f => failures.push(f),
+      deadLetter: { path: file },
+      processors: [{
+        beforeConvert: (r) => {
+          r.model = 'rewritten';
+          const { request: _request, ...stripped } = r;
+          return [{ ...r, id: `${r.id}-a` }, { ...stripped, id: `${r.id}-b` } as EvalResult];
+        },
+      }],
+    });
+    const input = makeEval('e1');
+
+    const reports = eval2otel.processEvaluation(input);
+
+    expect(reports.map(report => [report.evalId, report.success])).toEqual([['e1-a', true], ['e1-b', false]]);
+    expect(failures[0].input).toBe(input);
+    expect(readDeadLetters(file).map(record => record.input)).toEqual([
+      expect.objectContaining({ id: 'e1', model: 'gpt-4', request: { model: 'gpt-4' } }),
+    ]);
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('loads processors from a module path', () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'eval2otel-proc-'));
+    const file = path.join(dir, 'tagger.js');
+    fs.writeFileSync(file, 'module.exports = [{ name: "tagger", beforeConvert: r => { r.system = "tagged"; } }];');
+    const [processor] = loadProcessorModule(file);
+    expect(processor.name).toBe('tagger');
+    fs.writeFileSync(path.join(dir, 'bad.js'), 'module.exports = { nope: true };');
+    expect(() => loadProcessorModule(path.join(dir, 'bad.js'))).toThrow('Invalid processor module');
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+});
@@ -0,0 +1,90 @@
+import { deriveRunIds } from '../src/ids';
+import { createTestEval2Otel } from '../src/testing';
+import { EvalResult } from '../src/types';
+
+const makeEval = (id: string, duration: number, extra: Partial<EvalResult> = {}): EvalResult => ({
+  id, timestamp: 1700000000000, model: 'gpt-4o', system: 'openai', operation: 'chat',
+  request: { model: 'gpt-4o' }, response: {}, usage: { inputTokens: 10, outputTokens: 4 }, performance: { duration },
+  ...extra,
+} as EvalResult);
+
+describe('Run-level parent spans', () => {
+  it('parents case spans under an evalops.run span with aggregates', async () => {
+    const harness = createTestEval2Otel({ onError: 'skip' });
+    const run = harness.eval2otel.startRun({ runId: 'nightly-42', datasetId: 'qa', attributes: { 'team': 'evals' } });
+    run.processEvaluations([
+      makeEval('c1', 1),
+      makeEval('c2', 2, { error: { type: 'Timeout', message: 'slow' } }),
+      makeEval('c3', 3, { evidence: { warnings: [{ code: 'assertion.failed', message: 'x', severity: 'warning' }] } }),
+      makeEval('c4', 4),
+    ]);
+    const summary = run.end();
+
+    expect(summary).toMatchObject({
+      runId: 'nightly-42', caseCount: 4, passCount: 2, failCount: 2,
+      inputTokens: 40, outputTokens: 16, totalTokens: 56, durationP50: 2, durationP95: 4, warningCount: 1,
+    });
+    const runSpan = harness.getSpans().find(span => span.name === 'evalops.run')!;
+    expect(runSpan.attributes).toMatchObject({
+      'evalops.run.id': 'nightly-42',
+      'evalops.dataset.id': 'qa',
+      'team': 'evals',
+      'evalops.run.case_count': 4,
+      'evalops.run.fail_count': 2,
+      'evalops.run.total_tokens': 56,
+      'evalops.run.duration_p95': 4,
+    });
+    const cases = harness.getSpans().filter(span => span.name !== 'evalops.run');
+    expect(cases).toHaveLength(4);
+    cases.forEach((span) => {
+      expect(span.spanContext().traceId).toBe(runSpan.spanContext().traceId);
+      expect(span.parentSpanContext?.spanId).toBe(runSpan.spanContext().spanId);
+      expect(span.attributes['evalops.run.id']).toBe('nightly-42');
+      expect(span.attributes['evalops.dataset.id']).toBe('qa');
+    });
+    await harness.shutdown();
+  });
+
+  it('rejects cases after end and returns the same summary', async () => {
+    const harness = createTestEval2Otel();
+    const run = harness.eval2otel.startRun({ runId: 'r1' });
+    expect(run.end()).toEqual(run.end());
+    expect(run.summary().durationP50).toBeUndefined();
+    expect(() => run.processEvaluation(makeEval('late', 1))).toThrow('Run r1 has already ended');
+    expect(harness.getSpans().filter(span => span.name === 'evalops.run')).toHaveLength(1);
+    await harness.shutdown();
+  });
+
+  it('counts a conversion that throws as a failure without inventing warnings', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    const harness = createTestEval2Otel();
+    const run = harness.eval2otel.startRun({ runId: 'throws-1' });
+    run.processEvaluation(makeEval('ok', 1));
+    expect(() => run.processEvaluation({ id: 'bad' } as EvalResult)).toThrow();
+
+    expect(run.end()).toMatchObject({ caseCount: 2, passCount: 1, failCount: 1, warningCount: 0 });
+    jest.restoreAllMocks();
+    await harness.shutdown();
+  });
+
+  it('does not count cases skipped by dedupe', async () => {
+    const harness = createTestEval2Otel({ dedupe: { maxEntries: 10 } });
+    const run = harness.eval2otel.startRun({ runId: 'retry-1' });
+    run.processEvaluations([makeEval('c1', 1), makeEval('c2', 2)]);
+    const replay = run.processEvaluations([makeEval('c1', 1), makeEval('c2', 2), makeEval('c3', 3)]);
+    expect(replay.duplicateCount).toBe(2);
+
+    expect(run.end()).toMatchObject({
+      caseCount: 3, passCount: 3, failCount: 0, inputTokens: 30, outputTokens: 12, totalTokens: 42, durationP95: 3,
+    });
+    expect(harness.getSpans().filter(span => span.name !== 'evalops.run')).toHaveLength(3);
+    await harness.shutdown();
+  });
+
+  it('derives run span ids when deterministic ids are enabled', async () => {
+    const harness = createTestEval2Otel({ deterministicIds: {} });
+    harness.eval2otel.startRun({ runId: 'backfill-1' }).end();
+    expect(harness.getSpans()[0].spanContext()).toMatchObject(deriveRunIds('backfill-1'));
+    await harness.shutdown();
+  });
+});
@@ -0,0 +1,54 @@
+import { tracing } from '@opentelemetry/sdk-node';
+import { Eval2OtelConverter } from '../src/converter';
+import { Eval2Otel } from '../src/index';
+import { decideSpanSampling, isNotableOutcome } from '../src/sampling';
+import { EvalResult } from '../src/types';
+
+const makeEval = (id: string, extra: Partial<EvalResult> = {}): EvalResult => ({
+  id, timestamp: Date.now(), model: 'm', system: 'openai', operation: 'chat',
+  request: { model: 'm' }, response: {}, usage: {}, performance: { duration: 1 },
+  ...extra,
+} as EvalResult);
+
+describe('Outcome-aware span sampling', () => {
+  it('always keeps errors, failed assertions and safety flags', () => {
+    expect(isNotableOutcome(makeEval('e', { error: { type: 'Timeout', message: 'x' } }))).toBe(true);
+    expect(isNotableOutcome(makeEval('a', { evidence: { warnings: [{ code: 'promptfoo.assertion_failed', message: 'x', severity: 'warning' }] } }))).toBe(true);
+    expect(isNotableOutcome(makeEval('s', { provider: { attributes: { 'gen_ai.safety.flagged': true } } }))).toBe(true);
+    expect(isNotableOutcome(makeEval('p'))).toBe(false);
+    expect(decideSpanSampling(makeEval('e', { error: { type: 'T', message: 'x' } }), { passRate: 0 })).toEqual({ sampled: true, weight: 1 });
+  });
+
+  it('samples passing cases deterministically with a re-weighting factor', () => {
+    const decisions = Array.from({ length: 1000 }, (_, i) => decideSpanSampling(makeEval(`case-${i}`), { passRate: 0.1 }));
+    const kept = decisions.filter(d => d.sampled);
+    expect(kept.length).toBeGreaterThan(50);
+    expect(kept.length).toBeLessThan(150);
+    expect(kept.every(d => d.weight === 10)).toBe(true);
+    expect(decideSpanSampling(makeEval('case-1'), { passRate: 0.1 })).toEqual(decisions[1]);
+    expect(decideSpanSampling(makeEval('vip'), { passRate: 0, alwaysKeep: r => r.id === 'vip' }).sampled).toBe(true);
+  });
+
+  it('converter skips the span but still reports, and tags kept spans with the weight', () => {
+    const exporter = new tracing.InMemorySpanExporter();
+    const provider = new tracing.BasicTracerProvider({ spanProcessors: [new tracing.SimpleSpanProcessor(exporter)] });
+    const converter = new Eval2OtelConverter({ serviceName: 'svc', spanSampling: { passRate: 0 } }, provider.getTracer('test'));
+
+    const dropped = converter.convertEvalResult(makeEval('pass'));
+    const kept = converter.convertEvalResult(makeEval('fail', { error: { type: 'Err', message: 'bad' } }));
+
+    expect(dropped).toMatchObject({ success: true, sampled: false, samplingWeight: 0 });
+    expect(kept).toMatchObject({ sampled: true, samplingWeight: 1 });
+    const spans = exporter.getFinishedSpans();
+    expect(spans).toHaveLength(1);
+    expect(spans[0].attributes['evalops.sampling.weight']).toBe(1);
+  });
+
+  it('Eval2Otel records metrics for sampled-out evaluations', () => {
+    const eval2otel = new Eval2Otel({ serviceName: 'svc', useSdk: false, spanSampling: { passRate: 0 } });
+    const recordMetrics = jest.spyOn((eval2otel as any).metrics, 'recordMetrics');
+    const batch = eval2otel.processEvaluations([makeEval('p1'), makeEval('p2')]);
+    expect(recordMetrics).toHaveBeenCalledTimes(2);
+    expect(batch.sampledOutCount).toBe(2);
+  });
+});
@@ -11,7 +11,7 @@ describe('SDK BYO and no-SDK modes', () => {
     delete process.env.OTEL_EXPORTER_OTLP_PROTOCOL;
   });
 
-  it('no-SDK mode does not construct or start NodeSDK but sets envs', () => {
+  it('no-SDK mode does not construct or start NodeSDK and leaves env untouched', () => {
     const ctorSpy = jest.spyOn(sdkNode as any, 'NodeSDK');
     const eval2otel = new Eval2Otel({
       serviceName: 'svc',
@@ -23,10 +23,10 @@ describe('SDK BYO and no-SDK modes', () => {
     } as any);
     eval2otel.initialize();
     expect(ctorSpy).not.toHaveBeenCalled();
-    expect(process.env.OTEL_SEMCONV_STABILITY_OPT_IN).toBe('genai,stable');
-    expect((process.env as any).OTEL_SEMCONV_GA_VERSION).toBe('1.37.0');
-    expect(process.env.OTEL_EXPORTER_OTLP_ENDPOINT).toBe('http://collector:4317');
-    expect(process.env.OTEL_EXPORTER_OTLP_PROTOCOL).toBe('grpc');
+    expect(process.env.OTEL_SEMCONV_STABILITY_OPT_IN).toBeUndefined();
+    expect((process.env as any).OTEL_SEMCONV_GA_VERSION).toBeUndefined();
+    expect(process.env.OTEL_EXPORTER_OTLP_ENDPOINT).toBeUndefined();
+    expect(process.env.OTEL_EXPORTER_OTLP_PROTOCOL).toBeUndefined();
   });
 
   it('BYO SDK with manageSdkLifecycle=false does not start/shutdown', async () => {
@@ -5,12 +5,16 @@ import { createEval2Otel } from '../src/index';
 jest.mock('@opentelemetry/sdk-node');
 
 describe('SDK initialization', () => {
-  it('sets OTLP env based on config and merges default resource', () => {
+  const otlpEnvKeys = () => Object.keys(process.env).filter(k => k.startsWith('OTEL_EXPORTER_OTLP'));
+
+  it('hands per-instance exporters to the SDK without touching process.env', () => {
     const startMock = jest.fn();
+    const constructed: any[] = [];
     // @ts-ignore mock constructor
     (sdkNode as any).NodeSDK.mockImplementation((cfg: any) => {
       // Ensure resource exists and has merge result
       expect(cfg.resource).toBeDefined();
+      constructed.push(cfg);
       return { start: startMock };
     });
 
@@ -20,18 +24,21 @@ describe('SDK initialization', () => {
       exporterProtocol: 'http/protobuf',
       exporterHeaders: { Authorization: 'Bearer token' },
     });
-    expect(process.env.OTEL_EXPORTER_OTLP_ENDPOINT).toBe('http://collector:4318');
-    expect(process.env.OTEL_EXPORTER_OTLP_PROTOCOL).toBe('http/protobuf');
-    expect(process.env.OTEL_EXPORTER_OTLP_HEADERS).toContain('Authorization=Bearer token');
+    expect(otlpEnvKeys()).toEqual([]);
+    expect(constructed[0].spanProcessors).toHaveLength(1);
+    expect(constructed[0].metricReaders).toHaveLength(1);
+    expect(constructed[0].logRecordProcessors).toHaveLength(1);
 
     // Start gets called during createEval2Otel.initialize()
     expect(startMock).toHaveBeenCalled();
   });
 
-  it('sets signal-specific endpoints and headers when provided', () => {
+  it('builds exporters from signal-specific endpoints and headers', () => {
     const startMock = jest.fn();
     // @ts-ignore mock constructor
     (sdkNode as any).NodeSDK.mockImplementation(() => ({ start: startMock }));
+    const batchSpy = (sdkNode as any).tracing.BatchSpanProcessor as jest.Mock;
+    batchSpy.mockClear();
 
     const eval2otel = createEval2Otel({
       serviceName: 'svc',
@@ -44,12 +51,19 @@ describe('SDK initialization', () => {
       logsHeaders: { 'x-log': 'l' },
     });
 
-    expect(process.env.OTEL_EXPORTER_OTLP_TRACES_ENDPOINT).toBe('http://collector:4318/v1/traces');
-    expect(process.env.OTEL_EXPORTER_OTLP_METRICS_ENDPOINT).toBe('http://collector:4318/v1/metrics');
-    expect(process.env.OTEL_EXPORTER_OTLP_LOGS_ENDPOINT).toBe('http://collector:4318/v1/logs');
-    expect(process.env.OTEL_EXPORTER_OTLP_TRACES_HEADERS).toContain('x-trace=t');
-    expect(process.env.OTEL_EXPORTER_OTLP_METRICS_HEADERS).toContain('x-metric=m');
-    expect(process.env.OTEL_EXPORTER_OTLP_LOGS_HEADERS).toContain('x-log=l');
+    expect(otlpEnvKeys()).toEqual([]);
+    expect(batchSpy).toHaveBeenCalledTimes(1);
+    const traceExporter = batchSpy.mock.calls[0][0];
+    expect(traceExporter.constructor.name).toBe('OTLPTraceExporter');
     expect(startMock).toHaveBeenCalled();
   });
+
+  it('leaves exporter selection to the SDK when no exporter options are set', () => {
+    const constructed: any[] = [];
+    // @ts-ignore mock constructor
+    (sdkNode as any).NodeSDK.mockImplementation((cfg: any) => { constructed.push(cfg); return { start: jest.fn() }; });
+    createEval2Otel({ serviceName: 'svc' });
+    expect(constructed[0].spanProcessors).toBeUndefined();
+    expect(constructed[0].metricReaders).toBeUndefined();
+  });
 });
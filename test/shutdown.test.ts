@@ -0,0 +1,108 @@
+import { EventEmitter } from 'events';
+import { tracing } from '@opentelemetry/sdk-node';
+import { Eval2Otel } from '../src/index';
+import { QueueStats } from '../src/queue';
+import { flushForShutdown, installShutdownHooks, ShutdownProcess, ShutdownTarget } from '../src/shutdown';
+
+class FakeProcess extends EventEmitter {
+  pid = 4242;
+  kill = jest.fn();
+  exit = jest.fn();
+}
+
+const fakeProcess = () => new FakeProcess() as unknown as ShutdownProcess & FakeProcess;
+const flushPromises = () => new Promise(resolve => setImmediate(resolve));
+
+function makeTarget(shutdown: () => Promise<void>, stats: QueueStats[]): ShutdownTarget {
+  let call = 0;
+  return { flush: async () => {}, shutdown, getQueueStats: () => stats[Math.min(call++, stats.length - 1)] };
+}
+
+describe('Shutdown hooks', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+  afterEach(() => jest.restoreAllMocks());
+
+  it('counts flushed evaluations and gives up at the deadline', async () => {
+    const done = makeTarget(async () => {}, [
+      { size: 3, inFlight: 0, processed: 1, dropped: 0 },
+      { size: 0, inFlight: 0, processed: 4, dropped: 0 },
+    ]);
+    expect(await flushForShutdown(done, 1000, 'SIGTERM')).toEqual({ reason: 'SIGTERM', flushed: 3, dropped: 0, timedOut: false });
+
+    const hung = makeTarget(() => new Promise(() => {}), [
+      { size: 5, inFlight: 1, processed: 0, dropped: 0 },
+      { size: 2, inFlight: 1, processed: 2, dropped: 1 },
+    ]);
+    expect(await flushForShutdown(hung, 10, 'SIGINT')).toEqual({ reason: 'SIGINT', flushed: 2, dropped: 4, timedOut: true });
+  });
+
+  it('flushes on a signal, removes its handlers and re-raises the signal', async () => {
+    const proc = fakeProcess();
+    const shutdown = jest.fn(async () => {});
+    installShutdownHooks(makeTarget(shutdown, [{ size: 0, inFlight: 0, processed: 0, dropped: 0 }]), {}, proc);
+    expect(proc.listenerCount('SIGTERM')).toBe(1);
+
+    proc.emit('SIGTERM', 'SIGTERM');
+    await flushPromises();
+
+    expect(shutdown).toHaveBeenCalledTimes(1);
+    expect(proc.kill).toHaveBeenCalledWith(4242, 'SIGTERM');
+    expect(proc.listenerCount('SIGTERM')).toBe(0);
+    expect(proc.listenerCount('beforeExit')).toBe(0);
+    expect(console.log).toHaveBeenCalledWith('eval2otel: flushed telemetry on SIGTERM (0 queued evaluations flushed, 0 dropped)');
+  });
+
+  it('flushes once on beforeExit and exits with code 1 after an uncaught exception', async () => {
+    const proc = fakeProcess();
+    const shutdown = jest.fn(async () => {});
+    installShutdownHooks(makeTarget(shutdown, [{ size: 0, inFlight: 0, processed: 0, dropped: 0 }]), { timeoutMs: 50 }, proc);
+
+    proc.emit('beforeExit', 0);
+    await flushPromises();
+    proc.emit('beforeExit', 0);
+    expect(shutdown).toHaveBeenCalledTimes(1);
+    expect(proc.exit).not.toHaveBeenCalled();
+
+    const crashed = fakeProcess();
+    installShutdownHooks(makeTarget(async () => {}, [{ size: 0, inFlight: 0, processed: 0, dropped: 0 }]), {}, crashed);
+    crashed.emit('uncaughtException', new Error('boom'));
+    await flushPromises();
+    expect(crashed.exit).toHaveBeenCalledWith(1);
+  });
+
+  it('Eval2Otel installs hooks when opted in and removes them on shutdown', async () => {
+    const before = process.listenerCount('SIGTERM');
+    const eval2otel = new Eval2Otel({ serviceName: 'svc', useSdk: false, registerShutdownHooks: { uncaughtException: false } });
+    expect(process.listenerCount('SIGTERM')).toBe(before + 1);
+    await eval2otel.shutdown();
+    expect(process.listenerCount('SIGTERM')).toBe(before);
+  });
+
+  it('exports spans buffered by a provider the SDK does not own', async () => {
+    const batched = () => {
+      const exporter = new tracing.InMemorySpanExporter();
+      const tracerProvider = new tracing.BasicTracerProvider({
+        spanProcessors: [new tracing.BatchSpanProcessor(exporter, { scheduledDelayMillis: 60_000 })],
+      });
+      const eval2otel = new Eval2Otel({ serviceName: 'svc', useSdk: false, tracerProvider });
+      eval2otel.processEvaluation({
+        id: 'buffered', timestamp: Date.now(), model: 'gpt-4o', system: 'openai', operation: 'chat',
+        request: { model: 'gpt-4o' }, response: {}, usage: {}, performance: { duration: 1 },
+      });
+      expect(exporter.getFinishedSpans()).toHaveLength(0);
+      return { exporter, eval2otel, tracerProvider };
+    };
+
+    const hooked = batched();
+    expect(await flushForShutdown(hooked.eval2otel, 1000, 'SIGTERM')).toMatchObject({ timedOut: false });
+    expect(hooked.exporter.getFinishedSpans()).toHaveLength(1);
+
+    const direct = batched();
+    await direct.eval2otel.shutdown();
+    expect(direct.exporter.getFinishedSpans()).toHaveLength(1);
+    await Promise.all([hooked.tracerProvider.shutdown(), direct.tracerProvider.shutdown()]);
+  });
+});
@@ -0,0 +1,187 @@
+import {
+  parseStreamLine,
+  reassembleAnthropicStream,
+  reassembleOllamaStream,
+  reassembleOpenAIChatStream,
+  type AnthropicStreamEvent,
+  type OllamaStreamChunk,
+  type OpenAIChatStreamChunk,
+  type TimestampedChunk,
+} from '../src/streams';
+
+const start = 1_700_000_000_000;
+
+describe('Stream reassembly', () => {
+  it('joins OpenAI content and tool-call argument fragments and measures TTFT', () => {
+    const base = { id: 'chatcmpl-1', model: 'gpt-4o-mini', created: 1_700_000_000 };
+    const chunks: Array<TimestampedChunk<OpenAIChatStreamChunk>> = [
+      { receivedAt: start + 100, chunk: { ...base, choices: [{ index: 0, delta: { role: 'assistant' } }] } },
+      { receivedAt: start + 250, chunk: { ...base, choices: [{ index: 0, delta: { content: 'Checking' } }] } },
+      { receivedAt: start + 300, chunk: { ...base, choices: [{ index: 0, delta: { tool_calls: [{ index: 0, id: 'call_1', type: 'function', function: { name: 'lookup', arguments: '{"q":' } }] } }] } },
+      { receivedAt: start + 350, chunk: `data: ${JSON.stringify({ ...base, choices: [{ index: 0, delta: { tool_calls: [{ index: 0, function: { arguments: '"x"}' } }] }, finish_reason: 'tool_calls' }] })}` },
+      { receivedAt: start + 400, chunk: { ...base, choices: [], usage: { prompt_tokens: 5, completion_tokens: 3, total_tokens: 8 } } },
+      { receivedAt: start + 410, chunk: 'data: [DONE]' },
+    ];
+
+    const result = reassembleOpenAIChatStream(
+      { model: 'gpt-4o-mini', messages: [{ role: 'user', content: 'find x' }] },
+      chunks,
+      start,
+      { evalId: 'stream-1' },
+    );
+
+    expect(result.id).toBe('stream-1');
+    const choice = result.response!.choices![0];
+    expect(choice.message.content).toBe('Checking');
+    expect(choice.message.toolCalls).toEqual([
+      { id: 'call_1', type: 'function', function: { name: 'lookup', arguments: { q: 'x' } } },
+    ]);
+    expect(result.response!.finishReasons).toEqual(['tool_calls']);
+    expect(result.usage.outputTokens).toBe(3);
+    expect(result.performance.duration).toBeCloseTo(0.41, 5);
+    expect(result.performance.timeToFirstToken).toBeCloseTo(0.25, 5);
+    // 100ms between first and last output chunk over the 2 tokens after the first
+    expect(result.performance.timePerOutputToken).toBeCloseTo(0.05, 5);
+  });
+
+  it('falls back to output chunk count when an OpenAI stream reports no usage', () => {
+    const base = { id: 'chatcmpl-2', model: 'gpt-4o-mini' };
+    const result = reassembleOpenAIChatStream(
+      { model: 'gpt-4o-mini', messages: [{ role: 'user', content: 'hi' }] },
+      ['he', 'll', 'o'].map((content, i) => ({
+        receivedAt: start + 200 + i * 30,
+        chunk: { ...base, choices: [{ index: 0, delta: { content } }] },
+      })),
+      start,
+      { endTime: start + 300 },
+    );
+
+    expect(result.response!.choices![0].message.content).toBe('hello');
+    expect(result.performance.duration).toBeCloseTo(0.3, 5);
+    expect(result.performance.timePerOutputToken).toBeCloseTo(0.03, 5);
+  });
+
+  it('reassembles Anthropic text and tool_use blocks from message events', () => {
+    const events: Array<TimestampedChunk<AnthropicStreamEvent>> = [
+      { receivedAt: start + 50, chunk: { type: 'message_start', message: { id: 'msg_1', model: 'claude-3-5-sonnet', usage: { input_tokens: 12, output_tokens: 1 } } } },
+      { receivedAt: start + 60, chunk: 'event: content_block_start' },
+      { receivedAt: start + 60, chunk: { type: 'content_block_start', index: 0, content_block: { type: 'text', text: '' } } },
+      { receivedAt: start + 120, chunk: { type: 'content_block_delta', index: 0, delta: { type: 'text_delta', text: 'Let me ' } } },
+      { receivedAt: start + 140, chunk: { type: 'content_block_delta', index: 0, delta: { type: 'text_delta', text: 'check.' } } },
+      { receivedAt: start + 150, chunk: { type: 'content_block_start', index: 1, content_block: { type: 'tool_use', name: 'search', input: {} } } },
+      { receivedAt: start + 180, chunk: { type: 'content_block_delta', index: 1, delta: { type: 'input_json_delta', partial_json: '{"query":"o' } } },
+      { receivedAt: start + 220, chunk: { type: 'content_block_delta', index: 1, delta: { type: 'input_json_delta', partial_json: 'tel"}' } } },
+      { receivedAt: start + 230, chunk: { type: 'message_delta', delta: { stop_reason: 'tool_use' }, usage: { output_tokens: 11 } } },
+      { receivedAt: start + 240, chunk: { type: 'message_stop' } },
+    ];
+
+    const result = reassembleAnthropicStream(
+      { model: 'claude-3-5-sonnet', messages: [{ role: 'user', content: 'search otel' }] },
+      events,
+      start,
+    );
+
+    const message = result.response!.choices![0].message;
+    expect(message.content).toBe('Let me check.');
+    expect(message.toolCalls![0].function).toEqual({ name: 'search', arguments: { query: 'otel' } });
+    expect(result.response!.finishReasons).toEqual(['tool_use']);
+    expect(result.usage).toEqual(expect.objectContaining({ inputTokens: 12, outputTokens: 11, totalTokens: 23 }));
+    expect(result.performance.timeToFirstToken).toBeCloseTo(0.12, 5);
+    expect(result.performance.timePerOutputToken).toBeCloseTo(0.01, 5);
+    expect(result.error).toBeUndefined();
+  });
+
+  it('records an Anthropic error event on the result', () => {
+    const result = reassembleAnthropicStream(
+      { model: 'claude-3-5-sonnet', messages: [{ role: 'user', content: 'hi' }] },
+      [
+        { receivedAt: start + 50, chunk: { type: 'message_start', message: { id: 'msg_2', model: 'claude-3-5-sonnet' } } },
+        { receivedAt: start + 90, chunk: { type: 'error', error: { type: 'overloaded_error', message: 'Overloaded' } } },
+      ],
+      start,
+    );
+
+    expect(result.error).toEqual({ type: 'overloaded_error', message: 'Overloaded' });
+    expect(result.performance.timeToFirstToken).toBeUndefined();
+  });
+
+  it('keeps truncated tool input when an Anthropic stream errors inside a tool_use block', () => {
+    const result = reassembleAnthropicStream(
+      { model: 'claude-3-5-sonnet', messages: [{ role: 'user', content: 'weather?' }] },
+      [
+        { receivedAt: start + 50, chunk: { type: 'message_start', message: { id: 'msg_3', model: 'claude-3-5-sonnet' } } },
+        { receivedAt: start + 60, chunk: { type: 'content_block_start', index: 0, content_block: { type: 'tool_use', name: 'get_weather', input: {} } } },
+        { receivedAt: start + 70, chunk: { type: 'content_block_delta', index: 0, delta: { type: 'input_json_delta', partial_json: '{"city": "Par' } } },
+        { receivedAt: start + 90, chunk: { type: 'error', error: { type: 'overloaded_error', message: 'Overloaded' } } },
+      ],
+      start,
+    );
+
+    expect(result.error).toEqual({ type: 'overloaded_error', message: 'Overloaded' });
+    expect(result.response.choices?.[0].message.toolCalls?.[0].function).toEqual({
+      name: 'get_weather',
+      arguments: { partial_json: '{"city": "Par' },
+    });
+
+    const cutOff = reassembleAnthropicStream(
+      { model: 'claude-3-5-sonnet', messages: [{ role: 'user', content: 'weather?' }] },
+      [
+        { receivedAt: start + 50, chunk: { type: 'message_start', message: { id: 'msg_4', model: 'claude-3-5-sonnet' } } },
+        { receivedAt: start + 60, chunk: { type: 'content_block_start', index: 0, content_block: { type: 'tool_use', name: 'get_weather', input: {} } } },
+        { receivedAt: start + 70, chunk: { type: 'content_block_delta', index: 0, delta: { type: 'input_json_delta', partial_json: '{"city' } } },
+      ],
+      start,
+    );
+    expect(cutOff.error?.type).toBe('IncompleteToolInput');
+  });
+
+  it('keeps truncated tool arguments when an OpenAI stream is cut off inside a tool call', () => {
+    const base = { id: 'chatcmpl-3', model: 'gpt-4o' };
+    const result = reassembleOpenAIChatStream(
+      { model: 'gpt-4o', messages: [{ role: 'user', content: 'search' }] },
+      [
+        { receivedAt: start + 50, chunk: { ...base, choices: [{ index: 0, delta: { tool_calls: [
+          { index: 0, id: 'call_1', type: 'function', function: { name: 'search', arguments: '{"q": "par' } },
+          { index: 1, id: 'call_2', type: 'function', function: { name: 'noop' } },
+        ] } }] } },
+        { receivedAt: start + 80, chunk: { ...base, choices: [{ index: 0, delta: {}, finish_reason: 'length' }] } },
+      ],
+      start,
+    );
+
+    expect(result.error?.type).toBe('IncompleteToolInput');
+    expect(result.response.choices?.[0].finishReason).toBe('length');
+    expect(result.response.choices?.[0].message.toolCalls?.map(call => call.function.arguments)).toEqual([
+      { partial_json: '{"q": "par' },
+      { partial_json: '' },
+    ]);
+  });
+
+  it('reassembles Ollama NDJSON lines using arrival times', () => {
+    const lines: Array<TimestampedChunk<OllamaStreamChunk>> = ['Hi', ' there', '!'].map((content, i) => ({
+      receivedAt: start + 400 + i * 20,
+      chunk: JSON.stringify({ model: 'llama3', created_at: '2024-01-01T00:00:00Z', message: { role: 'assistant', content }, done: false }),
+    }));
+    lines.push({
+      receivedAt: start + 500,
+      chunk: { model: 'llama3', created_at: '2024-01-01T00:00:01Z', message: { role: 'assistant', content: '' }, done: true, done_reason: 'stop', prompt_eval_count: 4, eval_count: 5, total_duration: 9e9 },
+    });
+
+    const result = reassembleOllamaStream({ model: 'llama3', messages: [{ role: 'user', content: 'hello' }] }, lines, start);
+
+    expect(result.response!.choices![0].message.content).toBe('Hi there!');
+    expect(result.usage.outputTokens).toBe(5);
+    expect(result.performance.duration).toBeCloseTo(0.5, 5);
+    expect(result.performance.timeToFirstToken).toBeCloseTo(0.4, 5);
+    expect(result.performance.timePerOutputToken).toBeCloseTo(0.01, 5);
+  });
+
+  it('skips SSE framing lines and rejects empty streams', () => {
+    expect(parseStreamLine('')).toBeUndefined();
+    expect(parseStreamLine(': keep-alive')).toBeUndefined();
+    expect(parseStreamLine('event: ping')).toBeUndefined();
+    expect(parseStreamLine('data: [DONE]')).toBeUndefined();
+    expect(parseStreamLine('data: {"a":1}')).toEqual({ a: 1 });
+    expect(() => reassembleOpenAIChatStream({ model: 'm', messages: [] }, [], start)).toThrow('empty OpenAI chat stream');
+  });
+});
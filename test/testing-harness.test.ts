@@ -0,0 +1,47 @@
+import { SpanStatusCode } from '@opentelemetry/api';
+import { assertContract, createTestEval2Otel } from '../src/testing';
+import { EvalResult } from '../src/types';
+
+const makeEval = (id: string, extra: Partial<EvalResult> = {}): EvalResult => ({
+  id, timestamp: Date.now(), model: 'gpt-4o', system: 'openai', operation: 'chat',
+  request: { model: 'gpt-4o' }, response: {}, usage: { inputTokens: 10, outputTokens: 5 }, performance: { duration: 1 },
+  ...extra,
+} as EvalResult);
+
+describe('eval2otel/testing harness', () => {
+  it('captures spans in memory and asserts on them', async () => {
+    const harness = createTestEval2Otel();
+    harness.eval2otel.processEvaluation(makeEval('t1'));
+    harness.eval2otel.processEvaluation(makeEval('t2', { error: { type: 'RateLimit', message: '429' } }));
+
+    expect(harness.getSpans()).toHaveLength(2);
+    harness.expectSpan('t1')
+      .toHaveName('gen_ai.chat')
+      .toHaveAttribute('gen_ai.request.model', 'gpt-4o')
+      .toHaveStatus(SpanStatusCode.OK)
+      .toSatisfyContract();
+    harness.expectSpan('t2').toHaveAttribute('error.type', 'RateLimit').toHaveStatus(SpanStatusCode.ERROR);
+    expect(() => harness.expectSpan('t1').toHaveAttribute('gen_ai.request.model', 'other')).toThrow('to be "other"');
+    expect(() => harness.expectSpan('missing')).toThrow('No span recorded for eval missing');
+    await harness.shutdown();
+  });
+
+  it('collects histogram points from the in-memory metric reader', async () => {
+    const harness = createTestEval2Otel();
+    harness.eval2otel.processEvaluation(makeEval('m1'));
+
+    const points = await harness.getHistogramPoints('gen_ai.client.token.usage');
+    const input = points.find(p => p.attributes['gen_ai.token.type'] === 'input');
+    expect(input).toMatchObject({ count: 1, sum: 10 });
+    await harness.shutdown();
+  });
+
+  it('assertContract lists missing required attributes', () => {
+    const harness = createTestEval2Otel();
+    harness.eval2otel.processEvaluation(makeEval('c1'));
+    const span = harness.getSpan('c1')!;
+    expect(() => assertContract(span)).not.toThrow();
+    expect(() => assertContract({ ...span, name: 'bare', attributes: {} } as any))
+      .toThrow('Span "bare" violates eval2otel.v1: missing gen_ai.operation.name, gen_ai.provider.name');
+  });
+});
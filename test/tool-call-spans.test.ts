@@ -0,0 +1,71 @@
+import { SpanStatusCode } from '@opentelemetry/api';
+import { createTestEval2Otel } from '../src/testing';
+import { EvalResult } from '../src/types';
+
+const start = 1_700_000_000_000;
+
+const makeEval = (toolCalls: NonNullable<NonNullable<EvalResult['response']['choices']>[number]['message']['toolCalls']>): EvalResult => ({
+  id: 'tools-1', timestamp: start, model: 'gpt-4o', system: 'openai', operation: 'chat',
+  request: { model: 'gpt-4o' }, usage: {}, performance: { duration: 2 },
+  response: {
+    choices: [{ index: 0, finishReason: 'tool_calls', message: { role: 'assistant', toolCalls } }],
+  },
+});
+
+describe('toolCallMode: spans', () => {
+  it('emits each tool call as a child execute_tool span with its own timing and status', async () => {
+    const harness = createTestEval2Otel({
+      captureContent: true,
+      toolCallMode: 'spans',
+      redactToolArguments: (args) => args.replace('secret', '[redacted]'),
+    });
+    harness.eval2otel.processEvaluation(makeEval([
+      {
+        id: 'call_1', type: 'function', function: { name: 'search', arguments: { q: 'secret' } },
+        startTime: start + 500, endTime: start + 1250, result: { hits: 3 },
+      },
+      {
+        id: 'call_2', type: 'function', function: { name: 'fetch', arguments: { url: 'x' } },
+        error: { type: 'TimeoutError', message: 'timed out' },
+      },
+    ]));
+
+    const chat = harness.expectSpan('tools-1').span;
+    expect(chat.events.filter(e => e.name === 'gen_ai.tool.message')).toHaveLength(0);
+    const tools = harness.getSpans().filter(span => span.name === 'gen_ai.execute_tool');
+    expect(tools).toHaveLength(2);
+    tools.forEach(span => expect(span.parentSpanContext?.spanId).toBe(chat.spanContext().spanId));
+
+    const [search, fetch] = tools;
+    expect(search.attributes).toMatchObject({
+      'gen_ai.operation.name': 'execute_tool',
+      'gen_ai.tool.name': 'search',
+      'gen_ai.tool.call.id': 'call_1',
+      'gen_ai.tool.arguments': '{"q":"[redacted]"}',
+      'gen_ai.tool.call.result': '{"hits":3}',
+    });
+    expect(search.startTime).toEqual([1_700_000_000, 500_000_000]);
+    expect(search.endTime).toEqual([1_700_000_001, 250_000_000]);
+    expect(search.status.code).toBe(SpanStatusCode.OK);
+
+    // No timings: zero-length span at the end of the chat span
+    expect(fetch.startTime).toEqual([1_700_000_002, 0]);
+    expect(fetch.endTime).toEqual(fetch.startTime);
+    expect(fetch.status).toEqual({ code: SpanStatusCode.ERROR, message: 'timed out' });
+    expect(fetch.attributes['error.type']).toBe('TimeoutError');
+    await harness.shutdown();
+  });
+
+  it('keeps tool spans but drops arguments and results when content is not captured', async () => {
+    const harness = createTestEval2Otel({ toolCallMode: 'spans' });
+    harness.eval2otel.processEvaluation(makeEval([
+      { id: 'call_1', type: 'function', function: { name: 'search', arguments: { q: 'x' } }, result: 'ok' },
+    ]));
+
+    const [tool] = harness.getSpans().filter(span => span.name === 'gen_ai.execute_tool');
+    expect(tool.attributes['gen_ai.tool.name']).toBe('search');
+    expect(tool.attributes['gen_ai.tool.arguments']).toBeUndefined();
+    expect(tool.attributes['gen_ai.tool.call.result']).toBeUndefined();
+    await harness.shutdown();
+  });
+});
@@ -0,0 +1,91 @@
+import { createTestEval2Otel } from '../src/testing';
+import { EvalResult } from '../src/types';
+
+const start = 1_700_000_000_000;
+
+const makeStep = (id: string, workflow: EvalResult['workflow'], offsetMs: number, durationS = 1): EvalResult => ({
+  id, timestamp: start + offsetMs, model: 'gpt-4o', system: 'openai', operation: 'workflow_step',
+  request: { model: 'gpt-4o' }, response: {}, usage: {}, performance: { duration: durationS },
+  workflow,
+});
+
+const toMs = ([s, ns]: [number, number]) => s * 1000 + ns / 1e6 - start;
+
+describe('workflowHierarchy', () => {
+  it('rebuilds nested workflows from one batch into a single trace', async () => {
+    const harness = createTestEval2Otel({ workflowHierarchy: true });
+    harness.eval2otel.processEvaluations([
+      makeStep('s1', { id: 'root', name: 'orchestrate', step: 'plan' }, 0),
+      makeStep('s2', { id: 'child', name: 'research', step: 'search', parentWorkflowId: 'root' }, 1000),
+      makeStep('s3', { id: 'child', step: 'read', parentWorkflowId: 'root' }, 2000, 2),
+      makeStep('s4', { id: 'root', step: 'answer' }, 4500),
+    ]);
+
+    const workflows = new Map(harness.getSpans()
+      .filter(span => span.name === 'evalops.workflow')
+      .map(span => [span.attributes['gen_ai.workflow.id'], span]));
+    expect(workflows.size).toBe(2);
+    const root = workflows.get('root')!;
+    const child = workflows.get('child')!;
+
+    expect(root.parentSpanContext).toBeUndefined();
+    expect(child.parentSpanContext?.spanId).toBe(root.spanContext().spanId);
+    expect(child.attributes).toMatchObject({ 'gen_ai.workflow.name': 'research', 'gen_ai.workflow.parent_id': 'root' });
+    expect([toMs(root.startTime), toMs(root.endTime)]).toEqual([0, 5500]);
+    expect([toMs(child.startTime), toMs(child.endTime)]).toEqual([1000, 4000]);
+
+    const parentOf = (evalId: string) => harness.expectSpan(evalId).span.parentSpanContext?.spanId;
+    expect(parentOf('s1')).toBe(root.spanContext().spanId);
+    expect(parentOf('s2')).toBe(child.spanContext().spanId);
+    expect(parentOf('s3')).toBe(child.spanContext().spanId);
+    expect(parentOf('s4')).toBe(root.spanContext().spanId);
+    expect(new Set(harness.getSpans().map(span => span.spanContext().traceId)).size).toBe(1);
+    await harness.shutdown();
+  });
+
+  it('links to a parent workflow emitted in an earlier batch', async () => {
+    const harness = createTestEval2Otel({ workflowHierarchy: true });
+    harness.eval2otel.processEvaluations([makeStep('p1', { id: 'parent' }, 0)]);
+    harness.eval2otel.processEvaluations([
+      makeStep('c1', { id: 'late-child', parentWorkflowId: 'parent' }, 2000),
+      makeStep('o1', { id: 'orphan', parentWorkflowId: 'never-seen' }, 3000),
+    ]);
+
+    const workflows = new Map(harness.getSpans()
+      .filter(span => span.name === 'evalops.workflow')
+      .map(span => [span.attributes['gen_ai.workflow.id'], span]));
+    const lateChild = workflows.get('late-child')!;
+    expect(lateChild.parentSpanContext).toBeUndefined();
+    expect(lateChild.links).toHaveLength(1);
+    expect(lateChild.links[0].context.spanId).toBe(workflows.get('parent')!.spanContext().spanId);
+    expect(lateChild.links[0].attributes).toEqual({ 'gen_ai.workflow.parent_id': 'parent' });
+    expect(workflows.get('orphan')!.links).toHaveLength(0);
+    expect(workflows.get('orphan')!.attributes['gen_ai.workflow.parent_id']).toBe('never-seen');
+    await harness.shutdown();
+  });
+
+  it('emits one span per workflow when a child batch arrives before its parent', async () => {
+    const harness = createTestEval2Otel({ workflowHierarchy: true });
+    harness.eval2otel.processEvaluations([makeStep('c1', { id: 'child', parentWorkflowId: 'parent' }, 1000)]);
+    harness.eval2otel.processEvaluations([makeStep('p1', { id: 'parent' }, 0, 3)]);
+
+    const workflows = harness.getSpans().filter(span => span.name === 'evalops.workflow');
+    expect(workflows.map(span => span.attributes['gen_ai.workflow.id'])).toEqual(['child', 'parent']);
+    const [child, parent] = workflows;
+    expect(child.parentSpanContext).toBeUndefined();
+    expect(child.links).toHaveLength(0);
+    expect(child.attributes['gen_ai.workflow.parent_id']).toBe('parent');
+    expect([toMs(parent.startTime), toMs(parent.endTime)]).toEqual([0, 3000]);
+    await harness.shutdown();
+  });
+
+  it('leaves results without a workflow and single processEvaluation calls untouched', async () => {
+    const harness = createTestEval2Otel({ workflowHierarchy: true });
+    harness.eval2otel.processEvaluations([makeStep('plain', undefined, 0)]);
+    harness.eval2otel.processEvaluation(makeStep('single', { id: 'w' }, 0));
+
+    expect(harness.getSpans().filter(span => span.name === 'evalops.workflow')).toHaveLength(0);
+    expect(harness.expectSpan('single').span.parentSpanContext).toBeUndefined();
+    await harness.shutdown();
+  });
+});